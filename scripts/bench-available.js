@@ -0,0 +1,118 @@
+// Compares the indexed `available` query with the former full scan over the base range.
+// Run with `npm run bench`. Every scenario is also checked for identical results.
+import { performance } from 'node:perf_hooks'
+import { buildAvailablePage, createIdMatcher } from '../server/availableIndex.js'
+import { createTermsMatcher, parseFilter } from '../shared/filter.js'
+
+const BASE_MAX_ID = 1_000_000
+const LIMIT = 20
+const ROUNDS = Number(process.env.BENCH_ROUNDS) || 5
+
+const parseTerms = (filter) => parseFilter(filter).terms
+
+const scanAvailable = ({ filter, selectedLookup, added, offset, limit }) => {
+  const matchesFilter = createTermsMatcher(parseTerms(filter))
+  const items = []
+  let total = 0
+  const consider = (id) => {
+    if (selectedLookup.has(id)) return
+    if (!matchesFilter(id)) return
+    if (total >= offset && items.length < limit) {
+      items.push(id)
+    }
+    total += 1
+  }
+  for (let id = 1; id <= BASE_MAX_ID; id += 1) {
+    consider(id)
+  }
+  for (const id of added) {
+    consider(id)
+  }
+  return { items, total }
+}
+
+const collectSelectedInBase = (selectedIds, matcher) =>
+  selectedIds.filter((id) => id <= BASE_MAX_ID && matcher.test(id)).sort((a, b) => a - b)
+
+// The server caches the selected rank list per filter, so only the first page pays for it.
+const indexedAvailable = ({ filter, selectedLookup, selectedIds, selectedInBase, added, offset, limit }) => {
+  const matcher = createIdMatcher(parseTerms(filter))
+  return buildAvailablePage({
+    matcher,
+    baseMax: BASE_MAX_ID,
+    selectedInBase: selectedInBase ?? collectSelectedInBase(selectedIds, matcher),
+    added,
+    selectedLookup,
+    offset,
+    limit,
+  })
+}
+
+const createRandom = (seed) => () => {
+  seed = (seed * 1_103_515_245 + 12_345) % 2_147_483_648
+  return seed / 2_147_483_648
+}
+
+const random = createRandom(42)
+const selectedIds = Array.from(new Set(Array.from({ length: 50_000 }, () => 1 + Math.floor(random() * BASE_MAX_ID))))
+const added = Array.from({ length: 2_000 }, (_, index) => BASE_MAX_ID + 1 + index * 7)
+const selectedLookup = new Set(selectedIds)
+for (let index = 0; index < 200; index += 1) {
+  selectedLookup.add(added[index * 3])
+  selectedIds.push(added[index * 3])
+}
+
+const scenarios = [
+  { filter: '', offset: 0 },
+  { filter: '', offset: 700_000 },
+  { filter: '', offset: 950_500 },
+  { filter: '42', offset: 0 },
+  { filter: '42', offset: 30_000 },
+  { filter: '007', offset: 100 },
+  { filter: '999', offset: 3_000 },
+  { filter: '100000', offset: 0 },
+  { filter: '1', offset: 400_000 },
+  { filter: '42*', offset: 5_000 },
+  { filter: '*00', offset: 9_000 },
+  { filter: '=123456', offset: 0 },
+  { filter: '500000-510000', offset: 4_000 },
+  { filter: '12, 15, 900-950, *77', offset: 20_000 },
+  { filter: '*3*, 1000001-1005000', offset: 530_000 },
+]
+
+const measure = (run, params) => {
+  let result
+  const start = performance.now()
+  for (let round = 0; round < ROUNDS; round += 1) {
+    result = run(params)
+  }
+  return { result, ms: (performance.now() - start) / ROUNDS }
+}
+
+const rows = []
+let mismatches = 0
+for (const scenario of scenarios) {
+  const params = { ...scenario, selectedLookup, selectedIds, added, limit: LIMIT }
+  const scan = measure(scanAvailable, params)
+  const cold = measure(indexedAvailable, params)
+  const selectedInBase = collectSelectedInBase(selectedIds, createIdMatcher(parseTerms(scenario.filter)))
+  const indexed = measure(indexedAvailable, { ...params, selectedInBase })
+  const same = [cold, indexed].every(({ result }) => JSON.stringify(scan.result) === JSON.stringify(result))
+  if (!same) mismatches += 1
+  rows.push({
+    filter: scenario.filter || '(none)',
+    offset: scenario.offset,
+    total: indexed.result.total,
+    'scan, ms': scan.ms.toFixed(2),
+    'indexed cold, ms': cold.ms.toFixed(3),
+    'indexed, ms': indexed.ms.toFixed(3),
+    speedup: `${Math.round(scan.ms / Math.max(indexed.ms, 0.001))}x`,
+    same,
+  })
+}
+
+console.table(rows)
+if (mismatches) {
+  console.error(`${mismatches} scenario(s) returned different results`)
+  process.exit(1)
+}
@@ -0,0 +1,109 @@
+import { createError } from '../shared/errors.js'
+
+export const ROLES = ['read', 'edit']
+
+const TOKEN_QUERY_PARAM = 'access_token'
+
+export const parseApiKeys = (value = '') => {
+  const keys = new Map()
+  for (const entry of value.split(',')) {
+    const trimmed = entry.trim()
+    if (!trimmed) continue
+    const separator = trimmed.lastIndexOf(':')
+    const key = trimmed.slice(0, separator)
+    const role = trimmed.slice(separator + 1)
+    if (separator <= 0 || !ROLES.includes(role)) {
+      throw new Error(`Invalid API_KEYS entry "${trimmed}": expected key:${ROLES.join('|')}`)
+    }
+    keys.set(key, role)
+  }
+  return keys
+}
+
+export const parseList = (value = '') =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+// EventSource and download links cannot send headers, so they pass the key in the query string.
+const readCredential = (req) => {
+  const header = req.get('authorization')
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length).trim()
+  const apiKey = req.get('x-api-key')
+  if (apiKey) return apiKey.trim()
+  const token = req.query[TOKEN_QUERY_PARAM]
+  return typeof token === 'string' ? token : null
+}
+
+export const redactUrl = (url) => url.replace(new RegExp(`([?&]${TOKEN_QUERY_PARAM}=)[^&]*`), '$1***')
+
+const reject = (res, status, code, params) => {
+  res.status(status).json({ error: createError(code, params) })
+}
+
+export const createAuth = (keys) => {
+  const enabled = keys.size > 0
+
+  const authenticate = (req, res, next) => {
+    if (!enabled) {
+      req.auth = { client: req.ip, role: 'edit' }
+      next()
+      return
+    }
+    const credential = readCredential(req)
+    const role = credential ? keys.get(credential) : undefined
+    if (!role) {
+      res.set('WWW-Authenticate', 'Bearer')
+      reject(res, 401, 'UNAUTHORIZED')
+      return
+    }
+    req.auth = { client: credential, role }
+    next()
+  }
+
+  const requireEditor = (req, res, next) => {
+    if (req.auth?.role === 'edit') {
+      next()
+      return
+    }
+    reject(res, 403, 'FORBIDDEN')
+  }
+
+  return { enabled, authenticate, requireEditor }
+}
+
+export const createRateLimiter = ({ limit, windowMs }) => {
+  const windows = new Map()
+  let lastSweep = Date.now()
+
+  return (req, res, next) => {
+    if (!limit) {
+      next()
+      return
+    }
+    const now = Date.now()
+    if (now - lastSweep >= windowMs) {
+      for (const [client, window] of windows) {
+        if (now - window.start >= windowMs) windows.delete(client)
+      }
+      lastSweep = now
+    }
+    const client = req.auth?.client ?? req.ip
+    let window = windows.get(client)
+    if (!window || now - window.start >= windowMs) {
+      window = { start: now, count: 0 }
+      windows.set(client, window)
+    }
+    window.count += 1
+    res.set('RateLimit-Limit', String(limit))
+    res.set('RateLimit-Remaining', String(Math.max(limit - window.count, 0)))
+    if (window.count > limit) {
+      const retryAfter = Math.ceil((window.start + windowMs - now) / 1000)
+      res.set('Retry-After', String(retryAfter))
+      reject(res, 429, 'RATE_LIMITED', { retryAfter })
+      return
+    }
+    next()
+  }
+}
@@ -0,0 +1,309 @@
+import { createTermsMatcher, isMetaTerm } from '../shared/filter.js'
+
+// Filters compile to automata over the decimal digits of an ID, so `countUpTo(limit)` is a digit DP
+// costing O(digits × 10 × states) instead of O(limit).
+
+const buildFailure = (pattern) => {
+  const failure = new Array(pattern.length).fill(0)
+  for (let index = 1, matched = 0; index < pattern.length; index += 1) {
+    while (matched > 0 && pattern[index] !== pattern[matched]) {
+      matched = failure[matched - 1]
+    }
+    if (pattern[index] === pattern[matched]) matched += 1
+    failure[index] = matched
+  }
+  return failure
+}
+
+const createKmpStep = (pattern) => {
+  const failure = buildFailure(pattern)
+  return (state, digit) => {
+    let matched = state === pattern.length ? failure[state - 1] : state
+    while (matched > 0 && pattern[matched] !== digit) {
+      matched = failure[matched - 1]
+    }
+    return pattern[matched] === digit ? matched + 1 : 0
+  }
+}
+
+const createContainsAutomaton = (pattern) => {
+  const step = createKmpStep(pattern)
+  return {
+    start: 0,
+    next: (state, digit) => (state === pattern.length ? state : step(state, digit)),
+    accepts: (state) => state === pattern.length,
+  }
+}
+
+const createSuffixAutomaton = (pattern) => ({
+  start: 0,
+  next: createKmpStep(pattern),
+  accepts: (state) => state === pattern.length,
+})
+
+const createPrefixAutomaton = (pattern, { exact = false } = {}) => ({
+  start: 0,
+  next(state, digit) {
+    if (state < 0) return state
+    if (state === pattern.length) return exact ? -1 : state
+    return pattern[state] === digit ? state + 1 : -1
+  },
+  accepts: (state) => state === pattern.length,
+})
+
+const createRangeAutomaton = (from, to) => {
+  const low = String(from)
+  const high = String(to)
+  const tooLong = (high.length + 1) * 9
+  const compareDigit = (current, bound, position, digit) => {
+    if (position >= bound.length) return 2
+    if (current !== 1) return current
+    if (digit === bound[position]) return 1
+    return digit < bound[position] ? 0 : 2
+  }
+  return {
+    start: 1 * 3 + 1,
+    next(state, digit) {
+      if (state >= tooLong) return tooLong
+      const length = Math.floor(state / 9)
+      const compareFrom = Math.floor(state / 3) % 3
+      const compareTo = state % 3
+      return (
+        (length + 1) * 9 +
+        compareDigit(compareFrom, low, length, digit) * 3 +
+        compareDigit(compareTo, high, length, digit)
+      )
+    },
+    accepts(state) {
+      if (state >= tooLong) return false
+      const length = Math.floor(state / 9)
+      const compareFrom = Math.floor(state / 3) % 3
+      const compareTo = state % 3
+      const aboveFrom = length > low.length || (length === low.length && compareFrom >= 1)
+      const belowTo = length < high.length || (length === high.length && compareTo <= 1)
+      return aboveFrom && belowTo
+    },
+  }
+}
+
+const createTermAutomaton = (term) => {
+  switch (term.kind) {
+    case 'contains':
+      return createContainsAutomaton(term.value)
+    case 'prefix':
+      return createPrefixAutomaton(term.value)
+    case 'suffix':
+      return createSuffixAutomaton(term.value)
+    case 'exact':
+      return createPrefixAutomaton(String(term.value), { exact: true })
+    case 'range':
+      return createRangeAutomaton(term.from, term.to)
+    default:
+      throw new Error(`Unknown filter term: ${term.kind}`)
+  }
+}
+
+const createUnionAutomaton = (automata) => {
+  if (automata.length === 1) {
+    const [single] = automata
+    return { ...single, key: (state) => state }
+  }
+  return {
+    start: automata.map((automaton) => automaton.start),
+    next: (state, digit) => state.map((current, index) => automata[index].next(current, digit)),
+    accepts: (state) => state.some((current, index) => automata[index].accepts(current)),
+    key: (state) => state.join(','),
+  }
+}
+
+const DIGITS = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9']
+const LINEAR_PROBE = 64
+
+const createAutomatonCounter = (automaton) => {
+  const memo = new Map()
+
+  const completions = (remaining, state) => {
+    if (remaining === 0) return automaton.accepts(state) ? 1 : 0
+    const key = `${remaining}:${automaton.key(state)}`
+    const cached = memo.get(key)
+    if (cached !== undefined) return cached
+    let total = 0
+    for (const digit of DIGITS) {
+      total += completions(remaining - 1, automaton.next(state, digit))
+    }
+    memo.set(key, total)
+    return total
+  }
+
+  return (limit) => {
+    if (limit < 1) return 0
+    const digits = String(Math.floor(limit))
+    let total = 0
+
+    for (let length = 1; length < digits.length; length += 1) {
+      for (let first = 1; first <= 9; first += 1) {
+        total += completions(length - 1, automaton.next(automaton.start, DIGITS[first]))
+      }
+    }
+
+    let state = automaton.start
+    for (let index = 0; index < digits.length; index += 1) {
+      const bound = Number(digits[index])
+      for (let digit = index === 0 ? 1 : 0; digit < bound; digit += 1) {
+        total += completions(digits.length - index - 1, automaton.next(state, DIGITS[digit]))
+      }
+      state = automaton.next(state, digits[index])
+    }
+    if (automaton.accepts(state)) total += 1
+
+    return total
+  }
+}
+
+const createDigitMatcher = (terms) => {
+  if (!terms.length) return { test: () => false, countUpTo: () => 0 }
+  return {
+    test: createTermsMatcher(terms),
+    countUpTo: createAutomatonCounter(createUnionAutomaton(terms.map(createTermAutomaton))),
+  }
+}
+
+export const createIdMatcher = (terms, meta = new Map()) => {
+  if (!terms.length) {
+    return { test: () => true, countUpTo: (limit) => Math.max(Math.floor(limit), 0) }
+  }
+  const digits = createDigitMatcher(terms.filter((term) => !isMetaTerm(term)))
+  const metaTerms = terms.filter(isMetaTerm)
+  if (!metaTerms.length) return digits
+  const testMeta = createTermsMatcher(metaTerms)
+  const extra = []
+  for (const [id, entry] of meta) {
+    if (!digits.test(id) && testMeta(id, entry)) extra.push(id)
+  }
+  extra.sort((a, b) => a - b)
+  const extraLookup = new Set(extra)
+  return {
+    test: (id) => digits.test(id) || extraLookup.has(id),
+    countUpTo: (limit) => digits.countUpTo(limit) + upperBound(extra, limit),
+  }
+}
+
+const upperBound = (sorted, value) => {
+  let low = 0
+  let high = sorted.length
+  while (low < high) {
+    const middle = (low + high) >>> 1
+    if (sorted[middle] <= value) low = middle + 1
+    else high = middle
+  }
+  return low
+}
+
+export const countAvailableUpTo = ({ matcher, baseMax, selectedInBase, added, selectedLookup, id }) => {
+  const baseLimit = Math.min(id, baseMax)
+  let count = matcher.countUpTo(baseLimit) - upperBound(selectedInBase, baseLimit)
+  for (let index = 0; index < added.length && added[index] <= id; index += 1) {
+    if (!selectedLookup.has(added[index]) && matcher.test(added[index])) count += 1
+  }
+  return count
+}
+
+export const findAvailablePosition = (context) => {
+  const { matcher, baseMax, added, selectedLookup, id } = context
+  if (selectedLookup.has(id) || !matcher.test(id)) return null
+  if (id > baseMax && added[upperBound(added, id) - 1] !== id) return null
+  return countAvailableUpTo(context) - 1
+}
+
+export const buildAvailablePage = ({ matcher, baseMax, selectedInBase, added, selectedLookup, offset, limit }) => {
+  const rank = (value) => matcher.countUpTo(value) - upperBound(selectedInBase, value)
+  const baseTotal = rank(baseMax)
+
+  const seek = (position, from) => {
+    let low = from
+    let high = baseMax
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2)
+      if (rank(middle) > position) high = middle
+      else low = middle + 1
+    }
+    return low
+  }
+
+  const seekAfter = (position, from) => {
+    const probeEnd = Math.min(from + LINEAR_PROBE, baseMax)
+    for (let id = from; id <= probeEnd; id += 1) {
+      if (!selectedLookup.has(id) && matcher.test(id)) return id
+    }
+    return seek(position, probeEnd + 1)
+  }
+
+  const items = []
+  let from = 1
+  for (let position = offset; position < baseTotal && items.length < limit; position += 1) {
+    const id = position === offset ? seek(position, from) : seekAfter(position, from)
+    items.push(id)
+    from = id + 1
+  }
+
+  let addedTotal = 0
+  for (const id of added) {
+    if (selectedLookup.has(id) || !matcher.test(id)) continue
+    const position = baseTotal + addedTotal
+    if (position >= offset && items.length < limit) {
+      items.push(id)
+    }
+    addedTotal += 1
+  }
+
+  return { items, total: baseTotal + addedTotal }
+}
+
+export const AVAILABLE_SORTS = ['asc', 'desc', 'addedFirst']
+
+const countAvailableParts = ({ matcher, baseMax, selectedInBase, added, selectedLookup }) => {
+  const base = matcher.countUpTo(baseMax) - selectedInBase.length
+  let custom = 0
+  for (const id of added) {
+    if (!selectedLookup.has(id) && matcher.test(id)) custom += 1
+  }
+  return { base, custom }
+}
+
+export const buildSortedAvailablePage = ({ sort = 'asc', offset, limit, ...context }) => {
+  if (sort === 'asc') return buildAvailablePage({ ...context, offset, limit })
+  const { base, custom } = countAvailableParts(context)
+  const total = base + custom
+  if (sort === 'desc') {
+    const end = Math.max(total - offset, 0)
+    const start = Math.max(end - limit, 0)
+    const { items } = buildAvailablePage({ ...context, offset: start, limit: end - start })
+    return { items: items.reverse(), total }
+  }
+  const items = []
+  if (offset < custom) {
+    const page = buildAvailablePage({ ...context, offset: base + offset, limit: Math.min(limit, custom - offset) })
+    items.push(...page.items)
+  }
+  if (items.length < limit) {
+    const baseOffset = Math.max(offset - custom, 0)
+    const page = buildAvailablePage({ ...context, added: [], offset: baseOffset, limit: limit - items.length })
+    items.push(...page.items)
+  }
+  return { items, total }
+}
+
+export const countSortedAvailableThrough = ({ sort = 'asc', ...context }) => {
+  if (sort === 'asc') return countAvailableUpTo(context)
+  const { base, custom } = countAvailableParts(context)
+  if (sort === 'desc') return base + custom - countAvailableUpTo({ ...context, id: context.id - 1 })
+  return context.id > context.baseMax ? countAvailableUpTo(context) - base : custom + countAvailableUpTo(context)
+}
+
+export const findSortedAvailablePosition = ({ sort = 'asc', ...context }) => {
+  const position = findAvailablePosition(context)
+  if (position === null || sort === 'asc') return position
+  const { base, custom } = countAvailableParts(context)
+  if (sort === 'desc') return base + custom - 1 - position
+  return context.id > context.baseMax ? position - base : custom + position
+}
@@ -0,0 +1,86 @@
+import { createError } from '../shared/errors.js'
+
+export const IMPORT_FORMATS = new Set(['csv', 'json', 'text'])
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  text: 'text/plain; charset=utf-8',
+}
+
+const EXTENSIONS = { csv: 'csv', json: 'json', text: 'txt' }
+
+const splitLines = (content) => content.replace(/^\uFEFF/, '').split(/\r?\n/)
+
+const unquote = (cell) => {
+  const trimmed = cell.trim()
+  return trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')
+    ? trimmed.slice(1, -1).replace(/""/g, '"').trim()
+    : trimmed
+}
+
+const parseCsv = (content) => {
+  const lines = splitLines(content)
+  const firstIndex = lines.findIndex((line) => line.trim())
+  if (firstIndex === -1) return { rows: [] }
+  const delimiter = lines[firstIndex].includes(';') && !lines[firstIndex].includes(',') ? ';' : ','
+  const header = lines[firstIndex].split(delimiter).map((cell) => unquote(cell).toLowerCase())
+  const idColumn = header.indexOf('id')
+  const column = idColumn === -1 ? 0 : idColumn
+  const rows = []
+  lines.forEach((line, index) => {
+    if (!line.trim() || (idColumn !== -1 && index === firstIndex)) return
+    rows.push({ row: index + 1, value: unquote(line.split(delimiter)[column] ?? '') })
+  })
+  return { rows }
+}
+
+const parseText = (content) => {
+  const rows = []
+  splitLines(content).forEach((line, index) => {
+    if (line.trim()) rows.push({ row: index + 1, value: line.trim() })
+  })
+  return { rows }
+}
+
+const parseJson = (content) => {
+  let data
+  try {
+    data = JSON.parse(content)
+  } catch {
+    return { error: createError('INVALID_JSON_FILE') }
+  }
+  const ids = Array.isArray(data) ? data : data?.ids
+  if (!Array.isArray(ids)) {
+    return { error: createError('INVALID_JSON_SHAPE') }
+  }
+  return { rows: ids.map((value, index) => ({ row: index + 1, value: String(value) })) }
+}
+
+// `Number` alone would also take "1e3", "0x10", " 12 " or "" (as 0).
+export const parseImportedId = (value) => (/^\d+$/.test(value) ? Number(value) : NaN)
+
+export const parseImport = (format, content) => {
+  if (!IMPORT_FORMATS.has(format)) return { error: createError('INVALID_FIELD', { field: 'format' }) }
+  if (typeof content !== 'string') return { error: createError('INVALID_FIELD', { field: 'content' }) }
+  if (format === 'csv') return parseCsv(content)
+  if (format === 'json') return parseJson(content)
+  return parseText(content)
+}
+
+export const formatExport = (format, ids, { workspace, target }) => {
+  let body
+  if (format === 'csv') {
+    const rows = target === 'selection' ? ids.map((id, index) => `${index + 1},${id}`) : ids.map(String)
+    body = `${[target === 'selection' ? 'position,id' : 'id', ...rows].join('\n')}\n`
+  } else if (format === 'json') {
+    body = JSON.stringify({ workspace, target, ids })
+  } else {
+    body = ids.length ? `${ids.join('\n')}\n` : ''
+  }
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    fileName: `${workspace}-${target}.${EXTENSIONS[format]}`,
+  }
+}
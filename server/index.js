@@ -2,34 +2,126 @@ import express from 'express'
 import cors from 'cors'
 import path from 'node:path'
 import fs from 'node:fs'
+import { randomInt, randomUUID } from 'node:crypto'
 import { fileURLToPath } from 'node:url'
+import {
+  AVAILABLE_SORTS,
+  buildAvailablePage,
+  buildSortedAvailablePage,
+  countSortedAvailableThrough,
+  createIdMatcher,
+  findSortedAvailablePosition,
+} from './availableIndex.js'
+import { createAuth, createRateLimiter, parseApiKeys, parseList, redactUrl } from './auth.js'
+import { formatExport, IMPORT_FORMATS, parseImport, parseImportedId } from './importExport.js'
+import { createLogger } from './logger.js'
+import { createMetrics, secondsSince, SIZE_BUCKETS } from './metrics.js'
+import { diffSelections } from './selectionDiff.js'
+import { MAX_STATS_BUCKETS, pickBucketSize, summarizeSelection } from './selectionStats.js'
+import { createStorage } from './storage.js'
+import { createError } from '../shared/errors.js'
+import { createTermsMatcher, parseFilter } from '../shared/filter.js'
+import { MAX_ID_LIST_SIZE } from '../shared/idList.js'
+import { decodeIdRanges, encodeIdRanges, ID_ENCODING_HEADER, ID_RANGES_ENCODING } from '../shared/idRanges.js'
+import { normalizeItemMeta } from '../shared/itemMeta.js'
+import { MAX_GROUP_NAME_LENGTH, MAX_GROUPS, splitByGroup } from '../shared/selectionGroups.js'
+import { applySelectionOps, isValidSelectionOp, MAX_SELECTION_OPS } from '../shared/selectionOps.js'
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
 const PORT = Number(process.env.PORT) || 3001
-const BASE_MAX_ID = 1_000_000
+const DEFAULT_BASE_MAX = 1_000_000
+const MAX_BASE_MAX = 10_000_000
 const PAGE_LIMIT = 20
 const QUERY_BATCH_INTERVAL = 1000
 const SELECTION_BATCH_INTERVAL = 1000
 const ADD_BATCH_INTERVAL = 10_000
+const SNAPSHOT_INTERVAL = Number(process.env.STORAGE_SNAPSHOT_INTERVAL) || 60_000
+const SHUTDOWN_TIMEOUT = 10_000
+const SELECTED_RANK_CACHE_SIZE = 32
+const HISTORY_LIMIT = 100
+const MAX_HISTORY_SIZE = 1_000_000
+const MAX_IMPORT_ROWS = 200_000
+const MAX_QUERIES_PER_REQUEST = 50
+const MAX_PRESETS = 50
+const MAX_PRESET_NAME_LENGTH = 64
+const MAX_DIFF_ITEMS = 1000
+const RATE_LIMIT = Number(process.env.RATE_LIMIT ?? 600)
+const RATE_LIMIT_WINDOW = 60_000
+const TRANSFER_TARGETS = new Set(['selection', 'added'])
+const EVENTS_HEARTBEAT_INTERVAL = 25_000
+const EVENTS_RETRY = 3000
+const DEFAULT_WORKSPACE = 'default'
+const DEFAULT_COLLECTION = 'default'
+const COLLECTION_HEADER = 'x-collection'
+const WORKSPACE_HEADER = 'x-workspace'
+const WORKSPACE_COOKIE = 'workspace'
+const CLIENT_HEADER = 'x-client-id'
+const REQUEST_ID_HEADER = 'X-Request-Id'
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
+const WORKSPACE_PATTERN = /^[\p{L}\p{N}_-]{1,64}$/u
+
+const auth = createAuth(parseApiKeys(process.env.API_KEYS))
+const rateLimit = createRateLimiter({ limit: RATE_LIMIT, windowMs: RATE_LIMIT_WINDOW })
+const corsOrigins = parseList(process.env.CORS_ORIGINS)
+
+const storage = createStorage({
+  driver: process.env.STORAGE_DRIVER,
+  dir: process.env.STORAGE_DIR || path.join(__dirname, '../data'),
+})
+
+const logger = createLogger()
+const metrics = createMetrics()
+const requestDuration = metrics.histogram(
+  'http_request_duration_seconds',
+  'HTTP request latency by method, route and status.'
+)
+const batchFlushSize = metrics.histogram(
+  'batch_flush_size',
+  'Work per batch flush: queries, coalesced selection writes or requested IDs.',
+  SIZE_BUCKETS
+)
+const batchFlushDuration = metrics.histogram('batch_flush_duration_seconds', 'Time spent flushing a batch.')
+const availableScanDuration = metrics.histogram(
+  'available_scan_duration_seconds',
+  'Time spent building one page of the available list.'
+)
+
+const observeFlush = (batcher, size, start) => {
+  batchFlushSize.observe({ batcher }, size)
+  batchFlushDuration.observe({ batcher }, secondsSince(start))
+}
+
+let ready = false
 
 const app = express()
 app.use((req, res, next) => {
-  const start = Date.now()
+  const start = performance.now()
+  const incoming = req.get(REQUEST_ID_HEADER)
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID()
+  req.log = logger.child({ requestId })
+  res.set(REQUEST_ID_HEADER, requestId)
   res.on('finish', () => {
-    const duration = Date.now() - start
-    console.log(
-      `[${new Date().toISOString()}] ${req.method} ${req.originalUrl} - ${res.statusCode} (${duration}ms)`
-    )
+    const duration = secondsSince(start)
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched'
+    requestDuration.observe({ method: req.method, route, status: res.statusCode }, duration)
+    req.log.info('request', {
+      method: req.method,
+      url: redactUrl(req.originalUrl),
+      status: res.statusCode,
+      durationMs: Math.round(duration * 1000),
+    })
   })
   next()
 })
-app.use(cors())
+app.use(
+  cors({
+    origin: corsOrigins.length ? corsOrigins : '*',
+    exposedHeaders: [REQUEST_ID_HEADER, ID_ENCODING_HEADER, 'Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining'],
+  })
+)
 app.use(express.json({ limit: '1mb' }))
 
-const addedIds = new Set()
-let addedIdCache = null
-let selectedIds = []
-let selectedLookup = new Set()
-
 const getNormalizedFilter = (value) => (typeof value === 'string' ? value.trim() : '')
 const clampOffset = (value) => (Number.isFinite(value) && value >= 0 ? Math.floor(value) : 0)
 const clampLimit = (value) => {
@@ -37,86 +129,732 @@ const clampLimit = (value) => {
   return Math.min(Math.floor(value), 200)
 }
 
-const ensureSelectedLookup = () => {
-  selectedLookup = new Set(selectedIds)
+const SELECTED_SORTS = ['manual', 'asc', 'desc']
+
+const readSort = (list, value) => {
+  const sorts = list === 'selected' ? SELECTED_SORTS : AVAILABLE_SORTS
+  if (value === undefined || value === null) return sorts[0]
+  return sorts.includes(value) ? value : null
+}
+
+const encodeCursor = (payload) => Buffer.from(JSON.stringify(payload)).toString('base64url')
+
+const isCount = (value) => Number.isSafeInteger(value) && value >= 0
+
+const parseCursor = (value, list, filter, sort) => {
+  if (value === undefined || value === null) return { cursor: null }
+  let cursor = null
+  try {
+    cursor = typeof value === 'string' ? JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) : null
+  } catch {
+    cursor = null
+  }
+  const valid =
+    cursor?.list === list &&
+    cursor.filter === filter &&
+    cursor.sort === sort &&
+    Number.isSafeInteger(cursor.after) &&
+    cursor.after > 0 &&
+    (sort !== 'manual' || (isCount(cursor.version) && isCount(cursor.position)))
+  return valid ? { cursor } : { error: createError('INVALID_CURSOR') }
+}
+
+const workspaces = new Map()
+// Unwritten workspaces, shared by the requests using them and never saved or listed.
+const transientWorkspaces = new Map()
+
+const setSelectedIds = (workspace, ids, groupOf = workspace.groupOf) => {
+  workspace.selectedIds = ids
+  workspace.selectedLookup = new Set(ids)
+  workspace.selectedInBase.clear()
+  workspace.sortedSelection = null
+  workspace.groupOf = new Map(Array.from(groupOf).filter(([id]) => workspace.selectedLookup.has(id)))
+  workspace.version += 1
+}
+
+const publish = (workspace, type, payload) => {
+  if (!workspace.subscribers.size) return
+  const message = `event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`
+  for (const res of workspace.subscribers) {
+    res.write(message)
+  }
+}
+
+const publishSelectionChange = (workspace, previousIds, origin) => {
+  const sameSet =
+    previousIds.length === workspace.selectedIds.length &&
+    previousIds.every((id) => workspace.selectedLookup.has(id))
+  publish(workspace, sameSet ? 'order-changed' : 'selection-changed', {
+    version: workspace.version,
+    selected: workspace.selectedIds.length,
+    history: getHistoryCounts(workspace),
+    origin,
+  })
+}
+
+const setItemMeta = (workspace, id, meta) => {
+  if (meta) workspace.meta.set(id, meta)
+  else workspace.meta.delete(id)
+  workspace.selectedInBase.clear()
+}
+
+const pickMeta = (workspace, ids) => {
+  const picked = {}
+  for (const id of ids) {
+    const meta = workspace.meta.get(id)
+    if (meta) picked[id] = meta
+  }
+  return picked
+}
+
+const createWorkspaceTest = (workspace, terms) => {
+  const matches = createTermsMatcher(terms)
+  return (id) => matches(id, workspace.meta.get(id))
+}
+
+const sendError = (res, status, code, params) => {
+  res.status(status).json({ error: createError(code, params) })
+}
+
+const negotiateIdEncoding = (req, res) => {
+  res.vary(ID_ENCODING_HEADER)
+  if (req.get(ID_ENCODING_HEADER) !== ID_RANGES_ENCODING) return (ids) => ids
+  res.set(ID_ENCODING_HEADER, ID_RANGES_ENCODING)
+  return encodeIdRanges
+}
+
+const readSelectedIds = (workspace, value) => {
+  const plain = Array.isArray(value) ? value.length : 0
+  return decodeIdRanges(value, workspace.collection.baseMax + workspace.addedIds.size + plain)
+}
+
+const getOrigin = (req) => {
+  const value = req.get(CLIENT_HEADER)
+  return typeof value === 'string' && value ? value.slice(0, 64) : null
+}
+
+const getEntrySize = (entry) => {
+  if (entry.ops) return entry.ops.length
+  return (entry.groups ?? []).reduce((sum, [, ranges]) => sum + ranges.length, entry.ranges.length)
+}
+
+const pushHistory = (stack, entry) => {
+  stack.push(entry)
+  let size = stack.reduce((sum, item) => sum + getEntrySize(item), 0)
+  while (stack.length > 1 && (stack.length > HISTORY_LIMIT || size > MAX_HISTORY_SIZE)) {
+    size -= getEntrySize(stack.shift())
+  }
+}
+
+const recordHistory = (workspace, entry) => {
+  pushHistory(workspace.history.undo, entry)
+  workspace.history.redo = []
+}
+
+const getHistoryCounts = (workspace) => ({
+  undo: workspace.history.undo.length,
+  redo: workspace.history.redo.length,
+})
+
+const isSameOrder = (a, b) => a.length === b.length && a.every((id, index) => id === b[index])
+
+const createSelectionEntry = (ids, groupOf) => {
+  if (!groupOf) return { ranges: encodeIdRanges(ids) }
+  const members = new Map()
+  for (const [id, group] of groupOf) {
+    if (!members.has(group)) members.set(group, [])
+    members.get(group).push(id)
+  }
+  const groups = Array.from(members, ([group, groupIds]) => [group, encodeIdRanges(groupIds.sort((a, b) => a - b))])
+  return { ranges: encodeIdRanges(ids), groups }
+}
+
+const readSelectionEntry = (entry) => {
+  const ids = decodeIdRanges(entry.ranges)
+  if (!entry.groups) return { ids, groupOf: null }
+  const groupOf = new Map()
+  for (const [group, ranges] of entry.groups) {
+    for (const id of decodeIdRanges(ranges)) groupOf.set(id, group)
+  }
+  return { ids, groupOf }
+}
+
+const upgradeHistoryEntry = (entry) =>
+  entry.ids ? createSelectionEntry(entry.ids, entry.groupOf && new Map(entry.groupOf)) : entry
+
+const captureSelection = (workspace) => createSelectionEntry(workspace.selectedIds, workspace.groupOf)
+
+const replaceSelection = (workspace, ids) => {
+  if (!isSameOrder(ids, workspace.selectedIds)) {
+    recordHistory(workspace, captureSelection(workspace))
+  }
+  setSelectedIds(workspace, ids)
+}
+
+const evaluateOpsSteps = (workspace, ops, steps) => {
+  const sizes = steps ?? ops.map(() => 1)
+  const entries = []
+  let ids = workspace.selectedIds
+  let groupOf = workspace.groupOf
+  let applied = 0
+  let start = 0
+  for (const size of sizes) {
+    const result = applySelectionOps(ids, ops.slice(start, start + size), groupOf)
+    start += size
+    if (!result.applied) continue
+    entries.push({ ops: result.inverse })
+    ids = result.ids
+    groupOf = result.groupOf
+    applied += result.applied
+  }
+  return { ids, groupOf, applied, entries }
+}
+
+const commitOpsSteps = (workspace, { ids, groupOf, applied, entries }) => {
+  if (!applied) return
+  entries.forEach((entry) => recordHistory(workspace, entry))
+  setSelectedIds(workspace, ids, groupOf)
+}
+
+const stepHistory = (workspace, direction) => {
+  const source = direction === 'undo' ? workspace.history.undo : workspace.history.redo
+  const target = direction === 'undo' ? workspace.history.redo : workspace.history.undo
+  const entry = source.pop()
+  if (!entry) return false
+  if (entry.ranges) {
+    const { ids, groupOf } = readSelectionEntry(entry)
+    pushHistory(target, captureSelection(workspace))
+    setSelectedIds(workspace, ids, groupOf ?? workspace.groupOf)
+  } else {
+    const result = applySelectionOps(workspace.selectedIds, entry.ops, workspace.groupOf)
+    pushHistory(target, { ops: result.inverse })
+    setSelectedIds(workspace, result.ids, result.groupOf)
+  }
+  return true
 }
 
-ensureSelectedLookup()
+// Keeps a version check and the write it guards from interleaving with another change.
+const withSelectionLock = (workspace, task) => {
+  const result = workspace.selectionLock.then(task)
+  workspace.selectionLock = result.catch(() => {})
+  return result
+}
+
+const collections = new Map([[DEFAULT_COLLECTION, { id: DEFAULT_COLLECTION, baseMax: DEFAULT_BASE_MAX }]])
+
+const getStateKey = (workspaceId, collectionId) => `${collectionId}/${workspaceId}`
+
+const getLiveWorkspaces = () => [
+  ...workspaces.values(),
+  ...Array.from(transientWorkspaces.values(), (entry) => entry.workspace),
+]
+
+const getCollectionStates = (collectionId) =>
+  getLiveWorkspaces().filter((workspace) => workspace.collection.id === collectionId)
 
-const hasId = (rawId) => {
+const createWorkspaceState = (id, collectionId) => {
+  const workspace = {
+    id,
+    collection: collections.get(collectionId),
+    addedIds: new Set(),
+    addedIdCache: null,
+    selectedIds: [],
+    selectedLookup: new Set(),
+    selectedInBase: new Map(),
+    sortedSelection: null,
+    version: 0,
+    selectionLock: Promise.resolve(),
+    subscribers: new Set(),
+    history: { undo: [], redo: [] },
+    meta: new Map(),
+    presets: new Map(),
+    groups: [],
+    groupOf: new Map(),
+    nextGroupId: 1,
+  }
+  workspace.queryBatcher = createQueryBatcher(workspace)
+  workspace.selectionBatcher = createSelectionBatcher(workspace)
+  workspace.addBatcher = createAddBatcher(workspace)
+  return workspace
+}
+
+const getWorkspace = (id, collectionId = DEFAULT_COLLECTION) => {
+  const key = getStateKey(id, collectionId)
+  let workspace = workspaces.get(key)
+  if (!workspace) {
+    workspace = createWorkspaceState(id, collectionId)
+    workspaces.set(key, workspace)
+  }
+  return workspace
+}
+
+const peekWorkspace = (id, collectionId, res) => {
+  const key = getStateKey(id, collectionId)
+  const stored = workspaces.get(key)
+  if (stored) return stored
+  let entry = transientWorkspaces.get(key)
+  if (!entry) {
+    entry = { workspace: createWorkspaceState(id, collectionId), users: 0 }
+    transientWorkspaces.set(key, entry)
+  }
+  entry.users += 1
+  res.on('close', () => {
+    entry.users -= 1
+    if (!entry.users && transientWorkspaces.get(key) === entry) transientWorkspaces.delete(key)
+  })
+  return entry.workspace
+}
+
+const appendRecord = async (workspace, record) => {
+  await storage.append({ ...record, workspace: workspace.id, collection: workspace.collection.id })
+  const key = getStateKey(workspace.id, workspace.collection.id)
+  if (!workspaces.has(key)) {
+    workspaces.set(key, workspace)
+    transientWorkspaces.delete(key)
+  }
+}
+
+const getSnapshot = () => {
+  const snapshot = {
+    collections: Array.from(collections.values(), ({ id, baseMax }) => ({ id, baseMax })),
+    states: [],
+  }
+  for (const workspace of workspaces.values()) {
+    snapshot.states.push({
+      workspace: workspace.id,
+      collection: workspace.collection.id,
+      addedIds: Array.from(workspace.addedIds),
+      selectedIds: [...workspace.selectedIds],
+      version: workspace.version,
+      history: { undo: [...workspace.history.undo], redo: [...workspace.history.redo] },
+      meta: Array.from(workspace.meta),
+      presets: Array.from(workspace.presets.values()),
+      groups: workspace.groups,
+      groupOf: Array.from(workspace.groupOf),
+      nextGroupId: workspace.nextGroupId,
+    })
+  }
+  return snapshot
+}
+
+const restoreWorkspace = (
+  workspace,
+  {
+    addedIds = [],
+    selectedIds = [],
+    version = 0,
+    history,
+    meta = [],
+    presets = [],
+    groups = [],
+    groupOf = [],
+    nextGroupId = 1,
+  }
+) => {
+  for (const addedId of addedIds) {
+    workspace.addedIds.add(addedId)
+  }
+  workspace.addedIdCache = null
+  workspace.groups = groups
+  workspace.nextGroupId = nextGroupId
+  setSelectedIds(workspace, selectedIds, new Map(groupOf))
+  workspace.version = version
+  workspace.history = {
+    undo: (history?.undo ?? []).map(upgradeHistoryEntry),
+    redo: (history?.redo ?? []).map(upgradeHistoryEntry),
+  }
+  workspace.meta = new Map(meta)
+  workspace.presets = new Map(presets.map((preset) => [preset.name, preset]))
+}
+
+const applyRecord = (record) => {
+  if (record?.type === 'collection') {
+    saveCollection(record.collection.id, record.collection.baseMax)
+    return
+  }
+  if (record?.type === 'collection-delete') {
+    dropCollection(record.id)
+    return
+  }
+  const collectionId = record?.collection ?? DEFAULT_COLLECTION
+  if (!collections.has(collectionId)) return
+  const workspace = getWorkspace(record?.workspace ?? DEFAULT_WORKSPACE, collectionId)
+  if (record?.type === 'add') {
+    for (const id of record.ids) {
+      workspace.addedIds.add(id)
+    }
+    workspace.addedIdCache = null
+  } else if (record?.type === 'selection') {
+    replaceSelection(workspace, record.ids)
+  } else if (record?.type === 'ops') {
+    commitOpsSteps(workspace, evaluateOpsSteps(workspace, record.ops, record.steps))
+  } else if (record?.type === 'bulk') {
+    const outcome = evaluateBulk(workspace, record.command)
+    if (!outcome.error) replaceSelection(workspace, outcome.next)
+  } else if (record?.type === 'undo' || record?.type === 'redo') {
+    stepHistory(workspace, record.type)
+  } else if (record?.type === 'meta') {
+    setItemMeta(workspace, record.id, record.meta)
+  } else if (record?.type === 'delete') {
+    removeAddedIds(workspace, record.ids)
+  } else if (record?.type === 'preset') {
+    workspace.presets.set(record.preset.name, record.preset)
+  } else if (record?.type === 'preset-delete') {
+    workspace.presets.delete(record.name)
+  } else if (record?.type === 'group') {
+    saveGroup(workspace, record.group)
+  } else if (record?.type === 'group-delete') {
+    dropGroup(workspace, record.id)
+  }
+}
+
+const restoreState = ({ snapshot, records }) => {
+  if (snapshot?.states) {
+    for (const { id, baseMax } of snapshot.collections ?? []) {
+      collections.set(id, { id, baseMax })
+    }
+    for (const state of snapshot.states) {
+      if (collections.has(state.collection)) restoreWorkspace(getWorkspace(state.workspace, state.collection), state)
+    }
+  } else if (snapshot?.workspaces) {
+    for (const [id, state] of Object.entries(snapshot.workspaces)) {
+      restoreWorkspace(getWorkspace(id), state)
+    }
+  } else if (snapshot) {
+    restoreWorkspace(getWorkspace(DEFAULT_WORKSPACE), snapshot)
+  }
+  records.forEach(applyRecord)
+}
+
+const readCookie = (header, name) => {
+  if (typeof header !== 'string') return null
+  for (const part of header.split(';')) {
+    const [rawName, ...rest] = part.trim().split('=')
+    if (rawName === name) {
+      try {
+        return decodeURIComponent(rest.join('='))
+      } catch {
+        return null
+      }
+    }
+  }
+  return null
+}
+
+const readName = (value, fallback) => (typeof value === 'string' && value.trim() ? value.trim() : fallback)
+
+const resolveWorkspace = (req, res, next) => {
+  const id = readName(
+    req.get(WORKSPACE_HEADER) ?? req.query.workspace ?? readCookie(req.headers.cookie, WORKSPACE_COOKIE),
+    DEFAULT_WORKSPACE
+  )
+  if (!WORKSPACE_PATTERN.test(id)) {
+    sendError(res, 400, 'INVALID_WORKSPACE')
+    return
+  }
+  const collectionId = readName(req.get(COLLECTION_HEADER) ?? req.query.collection, DEFAULT_COLLECTION)
+  if (!collections.has(collectionId)) {
+    sendError(res, 404, 'COLLECTION_NOT_FOUND')
+    return
+  }
+  req.workspace = peekWorkspace(id, collectionId, res)
+  next()
+}
+
+const hasId = (workspace, rawId) => {
   const id = Number(rawId)
   if (!Number.isInteger(id) || id <= 0) return false
-  if (id >= 1 && id <= BASE_MAX_ID) return true
-  return addedIds.has(id)
+  if (id <= workspace.collection.baseMax) return true
+  return workspace.addedIds.has(id)
 }
 
-const getSortedAdded = () => {
-  if (!addedIdCache) {
-    addedIdCache = Array.from(addedIds).sort((a, b) => a - b)
+const getAddRejection = (workspace, id) => {
+  if (!Number.isInteger(id) || id <= 0) return createError('INVALID_ID')
+  if (id <= workspace.collection.baseMax) return createError('ID_IN_BASE_RANGE')
+  if (workspace.addedIds.has(id)) return createError('ID_ALREADY_ADDED')
+  return null
+}
+
+const getDeleteRejection = (workspace, id) => {
+  if (!Number.isInteger(id) || id <= 0) return createError('INVALID_ID')
+  if (id <= workspace.collection.baseMax) return createError('ID_NOT_DELETABLE')
+  if (!workspace.addedIds.has(id)) return createError('ID_NOT_FOUND')
+  return null
+}
+
+const partitionIds = (workspace, requested, getRejection) => {
+  const accepted = new Set()
+  const rejected = []
+  for (const raw of requested) {
+    const id = Number(raw)
+    const reason = getRejection(workspace, id)
+    if (reason) {
+      rejected.push({ id: Number.isInteger(id) && id > 0 ? id : raw, reason })
+      continue
+    }
+    accepted.add(id)
   }
-  return addedIdCache
+  return { accepted: Array.from(accepted).sort((a, b) => a - b), rejected }
 }
 
-const buildAvailableResult = ({ filter, offset = 0, limit = PAGE_LIMIT }) => {
-  const normalizedFilter = getNormalizedFilter(filter)
-  const safeOffset = clampOffset(offset)
-  const safeLimit = clampLimit(limit)
-  const matchesFilter = normalizedFilter
-    ? (id) => String(id).includes(normalizedFilter)
-    : () => true
+const forgetIds = (workspace, isGone) => {
+  const keep = (id) => !isGone(id)
+  for (const id of workspace.meta.keys()) {
+    if (isGone(id)) workspace.meta.delete(id)
+  }
+  workspace.selectedInBase.clear()
+  const prune = (entry) => {
+    if (entry.ops) return { ops: entry.ops.filter((op) => keep(op.id)) }
+    const { ids, groupOf } = readSelectionEntry(entry)
+    return createSelectionEntry(ids.filter(keep), groupOf && new Map(Array.from(groupOf).filter(([id]) => keep(id))))
+  }
+  workspace.history = { undo: workspace.history.undo.map(prune), redo: workspace.history.redo.map(prune) }
+  if (!workspace.selectedIds.every(keep)) {
+    setSelectedIds(workspace, workspace.selectedIds.filter(keep))
+  }
+}
+
+const removeAddedIds = (workspace, ids) => {
+  const removed = new Set(ids)
+  for (const id of ids) {
+    workspace.addedIds.delete(id)
+  }
+  workspace.addedIdCache = null
+  forgetIds(workspace, (id) => removed.has(id))
+}
+
+const findGroup = (workspace, id) => workspace.groups.find((group) => group.id === id)
+
+const saveGroup = (workspace, group) => {
+  const index = workspace.groups.findIndex((existing) => existing.id === group.id)
+  workspace.groups = index === -1 ? [...workspace.groups, group] : workspace.groups.with(index, group)
+  workspace.nextGroupId = Math.max(workspace.nextGroupId, group.id + 1)
+}
+
+const dropGroup = (workspace, id) => {
+  workspace.groups = workspace.groups.filter((group) => group.id !== id)
+  const release = (op) => (op.op === 'group' && op.group === id ? { ...op, group: null } : op)
+  const prune = (entry) =>
+    entry.ops
+      ? { ops: entry.ops.map(release) }
+      : { ranges: entry.ranges, groups: entry.groups?.filter(([group]) => group !== id) }
+  workspace.history = { undo: workspace.history.undo.map(prune), redo: workspace.history.redo.map(prune) }
+  const groupOf = new Map(Array.from(workspace.groupOf).filter(([, group]) => group !== id))
+  setSelectedIds(workspace, workspace.selectedIds, groupOf)
+}
 
-  const items = []
-  let total = 0
-  const consider = (id) => {
-    if (selectedLookup.has(id)) return
-    if (!matchesFilter(id)) return
-    if (total >= safeOffset && items.length < safeLimit) {
-      items.push(id)
+const saveCollection = (id, baseMax) => {
+  const collection = collections.get(id)
+  if (!collection) {
+    collections.set(id, { id, baseMax })
+    return
+  }
+  const previous = collection.baseMax
+  collection.baseMax = baseMax
+  for (const workspace of getCollectionStates(id)) {
+    for (const addedId of workspace.addedIds) {
+      if (addedId <= baseMax) workspace.addedIds.delete(addedId)
+    }
+    workspace.addedIdCache = null
+    workspace.selectedInBase.clear()
+    if (baseMax < previous) {
+      forgetIds(workspace, (value) => value > baseMax && value <= previous)
     }
-    total += 1
   }
+}
 
-  for (let id = 1; id <= BASE_MAX_ID; id += 1) {
-    consider(id)
+const dropCollection = (id) => {
+  collections.delete(id)
+  for (const workspace of getCollectionStates(id)) {
+    for (const res of workspace.subscribers) {
+      res.end()
+    }
+    workspaces.delete(getStateKey(workspace.id, id))
+    transientWorkspaces.delete(getStateKey(workspace.id, id))
   }
+}
 
-  for (const id of getSortedAdded()) {
-    consider(id)
+const getSortedAdded = (workspace) => {
+  if (!workspace.addedIdCache) {
+    workspace.addedIdCache = Array.from(workspace.addedIds).sort((a, b) => a - b)
   }
+  return workspace.addedIdCache
+}
 
-  return { items, total }
+const getSelectedInBase = (workspace, filter, matcher) => {
+  let cached = workspace.selectedInBase.get(filter)
+  if (!cached) {
+    const { baseMax } = workspace.collection
+    cached = workspace.selectedIds.filter((id) => id <= baseMax && matcher.test(id)).sort((a, b) => a - b)
+    if (workspace.selectedInBase.size >= SELECTED_RANK_CACHE_SIZE) {
+      workspace.selectedInBase.clear()
+    }
+    workspace.selectedInBase.set(filter, cached)
+  }
+  return cached
 }
 
-const buildSelectedResult = ({ filter, offset = 0, limit = PAGE_LIMIT }) => {
+const getAvailableContext = (workspace, filter, matcher) => ({
+  matcher,
+  baseMax: workspace.collection.baseMax,
+  selectedInBase: getSelectedInBase(workspace, filter, matcher),
+  added: getSortedAdded(workspace),
+  selectedLookup: workspace.selectedLookup,
+})
+
+const buildAvailableResult = (workspace, { filter, offset = 0, limit = PAGE_LIMIT, cursor, sort: rawSort }) => {
+  const sort = readSort('available', rawSort)
+  if (!sort) return { items: [], total: 0, error: createError('INVALID_FIELD', { field: 'sort' }) }
   const normalizedFilter = getNormalizedFilter(filter)
-  const safeOffset = clampOffset(offset)
-  const safeLimit = clampLimit(limit)
-  const matchesFilter = normalizedFilter
-    ? (id) => String(id).includes(normalizedFilter)
-    : () => true
+  const parsed = parseFilter(normalizedFilter)
+  if (!parsed.ok) return { items: [], total: 0, error: parsed.error }
+  const resume = parseCursor(cursor, 'available', normalizedFilter, sort)
+  if (resume.error) return { items: [], total: 0, error: resume.error }
+  const matcher = createIdMatcher(parsed.terms, workspace.meta)
+  const context = { ...getAvailableContext(workspace, normalizedFilter, matcher), sort }
+  const scanStart = performance.now()
+  const start = resume.cursor
+    ? countSortedAvailableThrough({ ...context, id: resume.cursor.after })
+    : clampOffset(offset)
+  const page = buildSortedAvailablePage({ ...context, offset: start, limit: clampLimit(limit) })
+  availableScanDuration.observe({}, secondsSince(scanStart))
+  const nextCursor =
+    page.items.length && start + page.items.length < page.total
+      ? encodeCursor({ list: 'available', filter: normalizedFilter, sort, after: page.items[page.items.length - 1] })
+      : null
+  return { ...page, nextCursor, meta: pickMeta(workspace, page.items) }
+}
 
-  const items = []
-  let total = 0
+const getSelectedOrder = (workspace, sort) => {
+  if (sort === 'manual') return workspace.selectedIds
+  if (!workspace.sortedSelection) {
+    workspace.sortedSelection = [...workspace.selectedIds].sort((a, b) => a - b)
+  }
+  return sort === 'asc' ? workspace.sortedSelection : workspace.sortedSelection.toReversed()
+}
+
+const getSelectedView = (workspace, sort, matchesFilter) => {
+  const sections = splitByGroup(getSelectedOrder(workspace, sort), workspace.groupOf, workspace.groups).map(
+    (section) => ({ group: section.group, ids: section.ids.filter(matchesFilter) })
+  )
+  return { sections, order: sections.flatMap((section) => section.ids) }
+}
 
-  for (const id of selectedIds) {
-    if (!matchesFilter(id)) continue
-    if (total >= safeOffset && items.length < safeLimit) {
-      items.push(id)
+const describeSections = (workspace, sections) => {
+  const names = new Map(workspace.groups.map((group) => [group.id, group.name]))
+  return sections.map((section) => ({
+    id: section.group,
+    name: section.group === null ? null : names.get(section.group),
+    total: section.ids.length,
+  }))
+}
+
+const pickGroups = (workspace, ids) => {
+  const picked = {}
+  for (const id of ids) {
+    const group = workspace.groupOf.get(id)
+    if (group !== undefined) picked[id] = group
+  }
+  return picked
+}
+
+const resolveSelectedCursor = (workspace, view, { sort, version, position, after, section = null }) => {
+  if (sort !== 'manual') {
+    const isThrough = sort === 'asc' ? (id) => id <= after : (id) => id >= after
+    let index = 0
+    for (const current of view.sections) {
+      if (current.group === section) return index + current.ids.filter(isThrough).length
+      index += current.ids.length
     }
-    total += 1
+    return isCount(position) ? position : 0
   }
+  if (version === workspace.version) return position
+  const index = view.order.indexOf(after)
+  return index === -1 ? position : index + 1
+}
+
+const buildSelectedResult = (workspace, { filter, offset = 0, limit = PAGE_LIMIT, cursor, sort: rawSort }) => {
+  const sort = readSort('selected', rawSort)
+  if (!sort) return { items: [], total: 0, error: createError('INVALID_FIELD', { field: 'sort' }) }
+  const normalizedFilter = getNormalizedFilter(filter)
+  const parsed = parseFilter(normalizedFilter)
+  if (!parsed.ok) return { items: [], total: 0, error: parsed.error }
+  const resume = parseCursor(cursor, 'selected', normalizedFilter, sort)
+  if (resume.error) return { items: [], total: 0, error: resume.error }
+  const view = getSelectedView(workspace, sort, createWorkspaceTest(workspace, parsed.terms))
+  const start = resume.cursor ? resolveSelectedCursor(workspace, view, resume.cursor) : clampOffset(offset)
+  const items = view.order.slice(start, start + clampLimit(limit))
+  const total = view.order.length
+  const last = items[items.length - 1]
 
-  return { items, total }
+  const nextCursor =
+    items.length && start + items.length < total
+      ? encodeCursor({
+          list: 'selected',
+          filter: normalizedFilter,
+          sort,
+          version: workspace.version,
+          position: start + items.length,
+          after: last,
+          section: workspace.groupOf.get(last) ?? null,
+        })
+      : null
+  return {
+    items,
+    total,
+    nextCursor,
+    meta: pickMeta(workspace, items),
+    groups: describeSections(workspace, view.sections),
+    groupOf: pickGroups(workspace, items),
+  }
 }
 
-const sanitizeIds = (ids) => {
+const buildPositionResult = (workspace, { list, filter, id, sort: rawSort }) => {
+  const sort = readSort(list, rawSort)
+  if (!sort) return { items: [], total: 0, error: createError('INVALID_FIELD', { field: 'sort' }) }
+  const normalizedFilter = getNormalizedFilter(filter)
+  const parsed = parseFilter(normalizedFilter)
+  if (!parsed.ok) return { items: [], total: 0, error: parsed.error }
+  const target = Number(id)
+  if (!Number.isSafeInteger(target) || target <= 0) {
+    return { items: [], total: 0, error: createError('INVALID_ID') }
+  }
+  if (list === 'selected') {
+    const { order } = getSelectedView(workspace, sort, createWorkspaceTest(workspace, parsed.terms))
+    const position = order.indexOf(target)
+    return { items: [], total: order.length, position: position === -1 ? null : position }
+  }
+  const matcher = createIdMatcher(parsed.terms, workspace.meta)
+  const context = getAvailableContext(workspace, normalizedFilter, matcher)
+  const { total } = buildAvailablePage({ ...context, offset: 0, limit: 0 })
+  return { items: [], total, position: findSortedAvailablePosition({ ...context, sort, id: target }) }
+}
+
+const buildStatsResult = (workspace, { filter, bucketSize: rawBucketSize }) => {
+  const parsed = parseFilter(getNormalizedFilter(filter))
+  if (!parsed.ok) return { items: [], total: 0, error: parsed.error }
+  const { baseMax } = workspace.collection
+  const bucketSize = rawBucketSize ?? pickBucketSize(baseMax)
+  if (!Number.isSafeInteger(bucketSize) || bucketSize <= 0 || Math.ceil(baseMax / bucketSize) > MAX_STATS_BUCKETS) {
+    return { items: [], total: 0, error: createError('INVALID_FIELD', { field: 'bucketSize' }) }
+  }
+  const matches = createWorkspaceTest(workspace, parsed.terms)
+  return {
+    items: [],
+    total: workspace.selectedIds.length,
+    version: workspace.version,
+    stats: summarizeSelection(workspace.selectedIds, { baseMax, bucketSize, matches }),
+  }
+}
+
+const sanitizeIds = (workspace, ids) => {
   if (!Array.isArray(ids)) return []
   const seen = new Set()
   const result = []
   for (const raw of ids) {
     const id = Number(raw)
     if (!Number.isInteger(id) || id <= 0) continue
-    if (!hasId(id)) continue
+    if (!hasId(workspace, id)) continue
     if (seen.has(id)) continue
     seen.add(id)
     result.push(id)
@@ -124,7 +862,110 @@ const sanitizeIds = (ids) => {
   return result
 }
 
-const createQueryBatcher = () => {
+const REORDER_ACTIONS = new Set(['sortById', 'reverse', 'shuffle'])
+const BULK_ACTIONS = new Set(['selectMatching', 'removeMatching', 'selectRange', 'clear', ...REORDER_ACTIONS])
+const SORT_DIRECTIONS = ['asc', 'desc']
+
+// Fisher–Yates with a seeded generator (mulberry32): a journaled shuffle replays to the same order.
+const shuffleIds = (ids, seed) => {
+  let state = seed >>> 0
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let value = Math.imul(state ^ (state >>> 15), state | 1)
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61)
+    return ((value ^ (value >>> 14)) >>> 0) / 2 ** 32
+  }
+  const result = [...ids]
+  for (let index = result.length - 1; index > 0; index -= 1) {
+    const other = Math.floor(random() * (index + 1))
+    const swapped = result[index]
+    result[index] = result[other]
+    result[other] = swapped
+  }
+  return result
+}
+
+const reorderSelection = (ids, command) => {
+  if (command.action === 'reverse') return { next: ids.toReversed() }
+  if (command.action === 'shuffle') {
+    if (!Number.isSafeInteger(command.seed)) return { error: createError('INVALID_FIELD', { field: 'seed' }) }
+    return { next: shuffleIds(ids, command.seed) }
+  }
+  const direction = command.direction ?? 'asc'
+  if (!SORT_DIRECTIONS.includes(direction)) return { error: createError('INVALID_FIELD', { field: 'direction' }) }
+  return { next: [...ids].sort(direction === 'asc' ? (a, b) => a - b : (a, b) => b - a) }
+}
+
+const seedBulkCommand = (command) =>
+  command?.action === 'shuffle' && command.seed === undefined ? { ...command, seed: randomInt(2 ** 32) } : command
+
+const parseBulkTerms = (command) => {
+  if (command.action === 'selectRange') {
+    const from = Number(command.from)
+    const to = Number(command.to)
+    if (!Number.isSafeInteger(from) || !Number.isSafeInteger(to) || from <= 0 || to <= 0) {
+      return { error: createError('INVALID_RANGE') }
+    }
+    if (from > to) {
+      return { error: createError('RANGE_REVERSED', { value: `${from}-${to}` }) }
+    }
+    return { terms: [{ kind: 'range', from, to }], from, to }
+  }
+  const parsed = parseFilter(getNormalizedFilter(command.filter))
+  if (!parsed.ok) return { error: parsed.error }
+  return { terms: parsed.terms, from: 1, to: Infinity }
+}
+
+const collectAvailable = (workspace, test, from, to) => {
+  const result = []
+  const { selectedLookup } = workspace
+  for (let id = Math.max(from, 1); id <= Math.min(to, workspace.collection.baseMax); id += 1) {
+    if (!selectedLookup.has(id) && test(id)) result.push(id)
+  }
+  for (const id of getSortedAdded(workspace)) {
+    if (id < from || id > to) continue
+    if (!selectedLookup.has(id) && test(id)) result.push(id)
+  }
+  return result
+}
+
+const countAvailable = (workspace, terms) => {
+  const matcher = createIdMatcher(terms, workspace.meta)
+  const context = getAvailableContext(workspace, JSON.stringify(terms), matcher)
+  return buildAvailablePage({ ...context, offset: 0, limit: 0 }).total
+}
+
+const evaluateBulk = (workspace, command, { dryRun = false } = {}) => {
+  if (!command || !BULK_ACTIONS.has(command.action)) {
+    return { error: createError('UNKNOWN_BULK_ACTION') }
+  }
+  if (command.action === 'clear') {
+    return { affected: workspace.selectedIds.length, next: dryRun ? undefined : [] }
+  }
+  if (REORDER_ACTIONS.has(command.action)) {
+    const reordered = reorderSelection(workspace.selectedIds, command)
+    if (reordered.error) return reordered
+    const affected = reordered.next.filter((id, index) => id !== workspace.selectedIds[index]).length
+    return { affected, next: dryRun ? undefined : reordered.next }
+  }
+
+  const parsed = parseBulkTerms(command)
+  if (parsed.error) return parsed
+  const test = createWorkspaceTest(workspace, parsed.terms)
+
+  if (command.action === 'removeMatching') {
+    const next = workspace.selectedIds.filter((id) => !test(id))
+    return { affected: workspace.selectedIds.length - next.length, next: dryRun ? undefined : next }
+  }
+
+  if (dryRun) {
+    return { affected: countAvailable(workspace, parsed.terms) }
+  }
+  const toSelect = collectAvailable(workspace, test, parsed.from, parsed.to)
+  return { affected: toSelect.length, next: [...workspace.selectedIds, ...toSelect] }
+}
+
+const createQueryBatcher = (workspace) => {
   let timer = null
   let pending = []
 
@@ -132,6 +973,7 @@ const createQueryBatcher = () => {
     timer = null
     if (!pending.length) return
 
+    const start = performance.now()
     const collectedQueries = []
     const keyToQuery = new Map()
     for (const item of pending) {
@@ -145,11 +987,32 @@ const createQueryBatcher = () => {
     const results = {}
     for (const query of collectedQueries) {
       if (query.type === 'available') {
-        results[query.key] = buildAvailableResult(query)
+        results[query.key] = buildAvailableResult(workspace, query)
       } else if (query.type === 'selected') {
-        results[query.key] = buildSelectedResult(query)
+        results[query.key] = buildSelectedResult(workspace, query)
+      } else if (query.type === 'position') {
+        results[query.key] = buildPositionResult(workspace, query)
+      } else if (query.type === 'stats') {
+        results[query.key] = buildStatsResult(workspace, query)
       } else if (query.type === 'selectionFull') {
-        results[query.key] = { items: [...selectedIds], total: selectedIds.length }
+        results[query.key] = {
+          items: [...workspace.selectedIds],
+          total: workspace.selectedIds.length,
+          version: workspace.version,
+          history: getHistoryCounts(workspace),
+          meta: pickMeta(workspace, workspace.selectedIds),
+          groups: describeSections(
+            workspace,
+            splitByGroup(workspace.selectedIds, workspace.groupOf, workspace.groups)
+          ),
+          groupOf: Object.fromEntries(workspace.groupOf),
+        }
+      } else {
+        results[query.key] = {
+          items: [],
+          total: 0,
+          error: createError('UNKNOWN_QUERY_TYPE', { type: String(query.type) }),
+        }
       }
     }
 
@@ -164,6 +1027,7 @@ const createQueryBatcher = () => {
       item.resolve({ results: response })
     }
     pending = []
+    observeFlush('query', collectedQueries.length, start)
   }
 
   return {
@@ -175,129 +1039,795 @@ const createQueryBatcher = () => {
         }
       })
     },
+    depth: () => pending.length,
   }
 }
 
-const createSelectionBatcher = () => {
+const createSelectionBatcher = (workspace) => {
   let timer = null
   let latest = null
-  let resolvers = []
+  let latestOrigin = null
+  let waiters = []
 
-  const flush = () => {
-    timer = null
-    if (!latest) {
-      resolvers.forEach((resolve) => resolve({ selected: selectedIds }))
-      resolvers = []
+  const run = async () => {
+    const nextSelection = latest && latest.filter((id) => hasId(workspace, id))
+    const origin = latestOrigin
+    const currentWaiters = waiters
+    latest = null
+    latestOrigin = null
+    waiters = []
+    if (!nextSelection) {
+      currentWaiters.forEach(({ resolve }) => resolve({ selected: workspace.selectedIds, version: workspace.version }))
       return
     }
 
-    selectedIds = latest
-    ensureSelectedLookup()
-    latest = null
-    resolvers.forEach((resolve) => resolve({ selected: selectedIds }))
-    resolvers = []
+    const start = performance.now()
+    try {
+      await appendRecord(workspace, { type: 'selection', ids: nextSelection })
+    } catch (error) {
+      currentWaiters.forEach(({ reject }) => reject(error))
+      return
+    }
+    const previousIds = workspace.selectedIds
+    replaceSelection(workspace, nextSelection)
+    publishSelectionChange(workspace, previousIds, origin)
+    currentWaiters.forEach(({ resolve }) => resolve({ selected: workspace.selectedIds, version: workspace.version }))
+    observeFlush('selection', currentWaiters.length, start)
+  }
+
+  const flush = () => {
+    clearTimeout(timer)
+    timer = null
+    return withSelectionLock(workspace, run)
   }
 
   return {
-    enqueue(nextSelection) {
-      return new Promise((resolve) => {
+    enqueue(nextSelection, origin = null) {
+      return new Promise((resolve, reject) => {
         latest = nextSelection
-        resolvers.push(resolve)
+        latestOrigin = origin
+        waiters.push({ resolve, reject })
         if (!timer) {
           timer = setTimeout(flush, SELECTION_BATCH_INTERVAL)
         }
       })
     },
+    flush,
+    depth: () => waiters.length,
   }
 }
 
-const createAddBatcher = () => {
+const createAddBatcher = (workspace) => {
   let timer = null
   const pendingRequests = []
 
-  const flush = () => {
+  const flush = async () => {
+    clearTimeout(timer)
     timer = null
     if (!pendingRequests.length) return
 
+    const start = performance.now()
+    const currentRequests = pendingRequests.splice(0)
     const requested = []
-    for (const req of pendingRequests) {
+    for (const req of currentRequests) {
       for (const id of req.ids) {
         requested.push(id)
       }
     }
-    const toAdd = new Set()
-    const rejectedGlobal = []
+    const { accepted: added, rejected: rejectedGlobal } = partitionIds(workspace, requested, getAddRejection)
 
-    for (const raw of requested) {
-      const id = Number(raw)
-      if (!Number.isInteger(id) || id <= 0) {
-        rejectedGlobal.push({ id: raw, reason: 'ID должен быть положительным целым числом' })
-        continue
-      }
-      if (id >= 1 && id <= BASE_MAX_ID) {
-        rejectedGlobal.push({ id, reason: 'ID уже существует в базовом наборе' })
-        continue
+    if (added.length > 0) {
+      try {
+        await appendRecord(workspace, { type: 'add', ids: added })
+      } catch (error) {
+        currentRequests.forEach((req) => req.reject(error))
+        return
       }
-      if (addedIds.has(id)) {
-        rejectedGlobal.push({ id, reason: 'ID уже добавлен' })
-        continue
+      for (const id of added) {
+        workspace.addedIds.add(id)
       }
-      toAdd.add(id)
-    }
-
-    const added = Array.from(toAdd).sort((a, b) => a - b)
-    for (const id of added) {
-      addedIds.add(id)
-    }
-    if (added.length > 0) {
-      addedIdCache = null
+      workspace.addedIdCache = null
+      publish(workspace, 'items-added', { ids: added, added: workspace.addedIds.size })
     }
 
-    for (const req of pendingRequests) {
+    for (const req of currentRequests) {
       const addedForRequest = added.filter((id) => req.idSet.has(id))
       const rejectedForRequest = rejectedGlobal.filter((item) => req.idSet.has(Number(item.id)))
       req.resolve({ added: addedForRequest, rejected: rejectedForRequest })
     }
-
-    pendingRequests.length = 0
+    observeFlush('add', requested.length, start)
   }
 
   return {
     enqueue(ids) {
-      return new Promise((resolve) => {
+      return new Promise((resolve, reject) => {
         const idSet = new Set(Array.isArray(ids) ? ids : [])
-        pendingRequests.push({ ids, idSet, resolve })
+        pendingRequests.push({ ids, idSet, resolve, reject })
         if (!timer) {
           timer = setTimeout(flush, ADD_BATCH_INTERVAL)
         }
       })
     },
+    flush,
+    depth: () => pendingRequests.length,
   }
 }
 
-const queryBatcher = createQueryBatcher()
-const selectionBatcher = createSelectionBatcher()
-const addBatcher = createAddBatcher()
+const BATCHERS = { query: 'queryBatcher', selection: 'selectionBatcher', add: 'addBatcher' }
 
-app.post('/api/items/batch', async (req, res) => {
-  const incoming = Array.isArray(req.body?.ids) ? req.body.ids : []
-  const result = await addBatcher.enqueue(incoming)
-  res.json(result)
+metrics.gauge('batch_queue_depth', 'Requests waiting for the next batch flush, over all workspaces.', () =>
+  Object.entries(BATCHERS).map(([batcher, field]) => {
+    let value = 0
+    for (const workspace of getLiveWorkspaces()) {
+      value += workspace[field].depth()
+    }
+    return { labels: { batcher }, value }
+  })
+)
+
+app.get('/api/health', (req, res) => {
+  res.json({ status: 'ok', uptime: Math.round(process.uptime()) })
+})
+
+app.get('/api/ready', (req, res) => {
+  res.status(ready ? 200 : 503).json({ status: ready ? 'ready' : 'unavailable' })
+})
+
+app.use('/api', auth.authenticate, rateLimit)
+
+app.get('/api/metrics', (req, res) => {
+  res.type('text/plain; version=0.0.4').send(metrics.render())
+})
+
+app.get('/api/workspaces', (req, res) => {
+  const summaries = new Map()
+  for (const workspace of workspaces.values()) {
+    const summary = summaries.get(workspace.id) ?? { id: workspace.id, selected: 0, added: 0 }
+    summary.selected += workspace.selectedIds.length
+    summary.added += workspace.addedIds.size
+    summaries.set(workspace.id, summary)
+  }
+  res.json({ workspaces: Array.from(summaries.values()) })
+})
+
+const describeCollection = ({ id, baseMax }) => ({ id, baseMax })
+
+const readBaseMax = (value) => (Number.isSafeInteger(value) && value >= 0 && value <= MAX_BASE_MAX ? value : null)
+
+const flushCollection = (id) =>
+  Promise.allSettled(
+    getCollectionStates(id).flatMap((workspace) => [workspace.addBatcher.flush(), workspace.selectionBatcher.flush()])
+  )
+
+app.get('/api/collections', (req, res) => {
+  res.json({ collections: Array.from(collections.values(), describeCollection) })
+})
+
+app.post('/api/collections', auth.requireEditor, async (req, res) => {
+  const id = readName(req.body?.id, '')
+  if (!WORKSPACE_PATTERN.test(id)) {
+    sendError(res, 400, 'INVALID_COLLECTION')
+    return
+  }
+  const baseMax = readBaseMax(req.body?.baseMax ?? 0)
+  if (baseMax === null) {
+    sendError(res, 400, 'INVALID_FIELD', { field: 'baseMax' })
+    return
+  }
+  if (collections.has(id)) {
+    sendError(res, 409, 'COLLECTION_EXISTS')
+    return
+  }
+  await storage.append({ type: 'collection', collection: { id, baseMax } })
+  saveCollection(id, baseMax)
+  res.status(201).json({ collection: describeCollection(collections.get(id)) })
+})
+
+app.put('/api/collections/:id', auth.requireEditor, async (req, res) => {
+  const collection = collections.get(req.params.id)
+  if (!collection) {
+    sendError(res, 404, 'COLLECTION_NOT_FOUND')
+    return
+  }
+  const baseMax = readBaseMax(req.body?.baseMax)
+  if (baseMax === null) {
+    sendError(res, 400, 'INVALID_FIELD', { field: 'baseMax' })
+    return
+  }
+  await flushCollection(collection.id)
+  await storage.append({ type: 'collection', collection: { id: collection.id, baseMax } })
+  saveCollection(collection.id, baseMax)
+  for (const workspace of getCollectionStates(collection.id)) {
+    publish(workspace, 'collection-changed', { baseMax, version: workspace.version, added: workspace.addedIds.size })
+  }
+  res.json({ collection: describeCollection(collection) })
 })
 
-app.post('/api/selection', async (req, res) => {
-  const nextSelection = sanitizeIds(req.body?.selectedIds)
-  const result = await selectionBatcher.enqueue(nextSelection)
+app.delete('/api/collections/:id', auth.requireEditor, async (req, res) => {
+  const { id } = req.params
+  if (id === DEFAULT_COLLECTION) {
+    sendError(res, 400, 'COLLECTION_NOT_DELETABLE')
+    return
+  }
+  if (!collections.has(id)) {
+    sendError(res, 404, 'COLLECTION_NOT_FOUND')
+    return
+  }
+  await flushCollection(id)
+  await storage.append({ type: 'collection-delete', id })
+  for (const workspace of getCollectionStates(id)) {
+    publish(workspace, 'collection-deleted', { id })
+  }
+  dropCollection(id)
+  res.status(204).end()
+})
+
+app.use('/api', resolveWorkspace)
+
+const readIdList = (req, res) => {
+  const ids = req.body?.ids
+  if (!Array.isArray(ids)) {
+    sendError(res, 400, 'INVALID_FIELD', { field: 'ids' })
+    return null
+  }
+  if (ids.length > MAX_ID_LIST_SIZE) {
+    sendError(res, 400, 'TOO_MANY_IDS', { max: MAX_ID_LIST_SIZE })
+    return null
+  }
+  return ids
+}
+
+app.post('/api/items/batch', auth.requireEditor, async (req, res) => {
+  const incoming = readIdList(req, res)
+  if (!incoming) return
+  if (req.body?.dryRun === true) {
+    const { accepted, rejected } = partitionIds(req.workspace, incoming, getAddRejection)
+    res.json({ added: accepted, rejected })
+    return
+  }
+  const result = await req.workspace.addBatcher.enqueue(incoming)
   res.json(result)
 })
 
+app.post('/api/items/delete', auth.requireEditor, async (req, res) => {
+  const { workspace } = req
+  const incoming = readIdList(req, res)
+  if (!incoming) return
+  const origin = getOrigin(req)
+  workspace.selectionBatcher.flush()
+  const { accepted: removed, rejected } = await withSelectionLock(workspace, async () => {
+    const partition = partitionIds(workspace, incoming, getDeleteRejection)
+    if (partition.accepted.length) {
+      await appendRecord(workspace, { type: 'delete', ids: partition.accepted })
+      const previousIds = workspace.selectedIds
+      removeAddedIds(workspace, partition.accepted)
+      if (workspace.selectedIds !== previousIds) publishSelectionChange(workspace, previousIds, origin)
+      publish(workspace, 'items-removed', { ids: partition.accepted, added: workspace.addedIds.size, origin })
+    }
+    return partition
+  })
+  res.json({
+    removed,
+    rejected,
+    selected: workspace.selectedIds.length,
+    version: workspace.version,
+    history: getHistoryCounts(workspace),
+  })
+})
+
+app.post('/api/items/meta', auth.requireEditor, async (req, res) => {
+  const { workspace } = req
+  const id = Number(req.body?.id)
+  if (!hasId(workspace, id)) {
+    sendError(res, 404, 'ID_NOT_FOUND')
+    return
+  }
+  const normalized = normalizeItemMeta(req.body)
+  if (normalized.error) {
+    res.status(400).json({ error: normalized.error })
+    return
+  }
+  await withSelectionLock(workspace, async () => {
+    await appendRecord(workspace, { type: 'meta', id, meta: normalized.meta })
+    setItemMeta(workspace, id, normalized.meta)
+    publish(workspace, 'meta-changed', { id, meta: normalized.meta, origin: getOrigin(req) })
+  })
+  res.json({ id, meta: normalized.meta })
+})
+
+app.post('/api/selection', auth.requireEditor, async (req, res) => {
+  const selectedIds = readSelectedIds(req.workspace, req.body?.selectedIds)
+  if (!selectedIds) {
+    sendError(res, 400, 'INVALID_FIELD', { field: 'selectedIds' })
+    return
+  }
+  const nextSelection = sanitizeIds(req.workspace, selectedIds)
+  const result = await req.workspace.selectionBatcher.enqueue(nextSelection, getOrigin(req))
+  const writeIds = negotiateIdEncoding(req, res)
+  res.json({ ...result, selected: writeIds(result.selected) })
+})
+
+app.post('/api/selection/bulk', auth.requireEditor, async (req, res) => {
+  const { workspace } = req
+  const command = seedBulkCommand(req.body?.command)
+  const dryRun = req.body?.dryRun === true
+  workspace.selectionBatcher.flush()
+  const outcome = await withSelectionLock(workspace, async () => {
+    const evaluated = evaluateBulk(workspace, command, { dryRun })
+    if (!evaluated.error && !dryRun) {
+      await appendRecord(workspace, { type: 'bulk', command })
+      const previousIds = workspace.selectedIds
+      replaceSelection(workspace, evaluated.next)
+      publishSelectionChange(workspace, previousIds, getOrigin(req))
+    }
+    return evaluated
+  })
+  if (outcome.error) {
+    res.status(400).json({ error: outcome.error })
+    return
+  }
+  res.json({
+    affected: outcome.affected,
+    selected: workspace.selectedIds.length,
+    version: workspace.version,
+    history: getHistoryCounts(workspace),
+  })
+})
+
+app.post('/api/selection/ops', auth.requireEditor, async (req, res) => {
+  const { workspace } = req
+  const baseVersion = req.body?.baseVersion
+  const ops = req.body?.ops
+  const steps = req.body?.steps
+  if (!Number.isInteger(baseVersion)) {
+    sendError(res, 400, 'INVALID_FIELD', { field: 'baseVersion' })
+    return
+  }
+  if (!Array.isArray(ops)) {
+    sendError(res, 400, 'INVALID_FIELD', { field: 'ops' })
+    return
+  }
+  if (ops.length > MAX_SELECTION_OPS) {
+    sendError(res, 400, 'TOO_MANY_OPS', { max: MAX_SELECTION_OPS })
+    return
+  }
+  if (
+    steps !== undefined &&
+    (!Array.isArray(steps) ||
+      !steps.every((size) => Number.isInteger(size) && size > 0) ||
+      steps.reduce((sum, size) => sum + size, 0) !== ops.length)
+  ) {
+    sendError(res, 400, 'INVALID_FIELD', { field: 'steps' })
+    return
+  }
+  const malformed = ops.find((op) => !isValidSelectionOp(op))
+  if (malformed) {
+    sendError(res, 400, 'INVALID_OP', { op: JSON.stringify(malformed) })
+    return
+  }
+
+  workspace.selectionBatcher.flush()
+  const outcome = await withSelectionLock(workspace, async () => {
+    if (baseVersion !== workspace.version) return { conflict: true }
+    // Checked under the lock: a request queued ahead may delete IDs or groups.
+    const invalid = ops.find(
+      (op) =>
+        (op.op === 'insert' && !hasId(workspace, op.id)) ||
+        (op.op === 'group' && op.group !== null && !findGroup(workspace, op.group))
+    )
+    if (invalid) return { invalid }
+    const evaluated = evaluateOpsSteps(workspace, ops, steps)
+    if (evaluated.applied > 0) {
+      await appendRecord(workspace, { type: 'ops', ops, steps })
+      const previousIds = workspace.selectedIds
+      commitOpsSteps(workspace, evaluated)
+      publishSelectionChange(workspace, previousIds, getOrigin(req))
+    }
+    return { applied: evaluated.applied }
+  })
+  if (outcome.conflict) {
+    const writeIds = negotiateIdEncoding(req, res)
+    res.status(409).json({
+      error: createError('SELECTION_CONFLICT'),
+      conflict: { version: workspace.version, selectedIds: writeIds(workspace.selectedIds) },
+    })
+    return
+  }
+  if (outcome.invalid) {
+    sendError(res, 400, 'INVALID_OP', { op: JSON.stringify(outcome.invalid) })
+    return
+  }
+  res.json({
+    version: workspace.version,
+    selected: workspace.selectedIds.length,
+    applied: outcome.applied,
+    history: getHistoryCounts(workspace),
+  })
+})
+
+const handleHistoryStep = (direction) => async (req, res) => {
+  const { workspace } = req
+  workspace.selectionBatcher.flush()
+  const changed = await withSelectionLock(workspace, async () => {
+    const stack = direction === 'undo' ? workspace.history.undo : workspace.history.redo
+    if (!stack.length) return false
+    await appendRecord(workspace, { type: direction })
+    const previousIds = workspace.selectedIds
+    stepHistory(workspace, direction)
+    publishSelectionChange(workspace, previousIds, getOrigin(req))
+    return true
+  })
+  res.json({
+    changed,
+    version: workspace.version,
+    selected: workspace.selectedIds.length,
+    history: getHistoryCounts(workspace),
+  })
+}
+
+app.post('/api/selection/undo', auth.requireEditor, handleHistoryStep('undo'))
+app.post('/api/selection/redo', auth.requireEditor, handleHistoryStep('redo'))
+
+const describePreset = ({ name, ids, savedAt }) => ({ name, count: ids.length, savedAt })
+
+const readDisplayName = (value, max) => {
+  if (typeof value !== 'string' || !value.trim()) return { error: createError('INVALID_FIELD', { field: 'name' }) }
+  const name = value.trim()
+  if (name.length > max) {
+    return { error: createError('FIELD_TOO_LONG', { field: 'name', max }) }
+  }
+  return { name }
+}
+
+app.get('/api/presets', (req, res) => {
+  const presets = Array.from(req.workspace.presets.values(), describePreset)
+  res.json({ presets: presets.sort((a, b) => a.name.localeCompare(b.name)) })
+})
+
+app.put('/api/presets/:name', auth.requireEditor, async (req, res) => {
+  const { workspace } = req
+  const { name, error } = readDisplayName(req.params.name, MAX_PRESET_NAME_LENGTH)
+  if (error) {
+    res.status(400).json({ error })
+    return
+  }
+  const replaced = workspace.presets.has(name)
+  if (!replaced && workspace.presets.size >= MAX_PRESETS) {
+    sendError(res, 400, 'TOO_MANY_PRESETS', { max: MAX_PRESETS })
+    return
+  }
+  workspace.selectionBatcher.flush()
+  const preset = await withSelectionLock(workspace, async () => {
+    const saved = { name, ids: [...workspace.selectedIds], savedAt: new Date().toISOString() }
+    await appendRecord(workspace, { type: 'preset', preset: saved })
+    workspace.presets.set(name, saved)
+    return saved
+  })
+  res.status(replaced ? 200 : 201).json({ preset: describePreset(preset) })
+})
+
+app.delete('/api/presets/:name', auth.requireEditor, async (req, res) => {
+  const { workspace } = req
+  const { name, error } = readDisplayName(req.params.name, MAX_PRESET_NAME_LENGTH)
+  if (error) {
+    res.status(400).json({ error })
+    return
+  }
+  if (!workspace.presets.has(name)) {
+    sendError(res, 404, 'PRESET_NOT_FOUND', { name })
+    return
+  }
+  await withSelectionLock(workspace, async () => {
+    await appendRecord(workspace, { type: 'preset-delete', name })
+    workspace.presets.delete(name)
+  })
+  res.status(204).end()
+})
+
+app.post('/api/presets/:name/restore', auth.requireEditor, async (req, res) => {
+  const { workspace } = req
+  const { name, error } = readDisplayName(req.params.name, MAX_PRESET_NAME_LENGTH)
+  if (error) {
+    res.status(400).json({ error })
+    return
+  }
+  const preset = workspace.presets.get(name)
+  if (!preset) {
+    sendError(res, 404, 'PRESET_NOT_FOUND', { name })
+    return
+  }
+  workspace.selectionBatcher.flush()
+  const ids = await withSelectionLock(workspace, async () => {
+    const ids = sanitizeIds(workspace, preset.ids)
+    if (isSameOrder(ids, workspace.selectedIds)) return ids
+    await appendRecord(workspace, { type: 'selection', ids })
+    const previousIds = workspace.selectedIds
+    replaceSelection(workspace, ids)
+    publishSelectionChange(workspace, previousIds, getOrigin(req))
+    return ids
+  })
+  res.json({
+    skipped: preset.ids.length - ids.length,
+    selected: workspace.selectedIds.length,
+    version: workspace.version,
+    history: getHistoryCounts(workspace),
+  })
+})
+
+app.get('/api/presets/diff', async (req, res) => {
+  const { workspace } = req
+  workspace.selectionBatcher.flush()
+  const current = await withSelectionLock(workspace, async () => workspace.selectedIds)
+  const sides = []
+  for (const field of ['from', 'to']) {
+    if (req.query[field] === undefined || req.query[field] === '') {
+      sides.push(current)
+      continue
+    }
+    const { name, error } = readDisplayName(req.query[field], MAX_PRESET_NAME_LENGTH)
+    if (error) {
+      res.status(400).json({ error })
+      return
+    }
+    const preset = workspace.presets.get(name)
+    if (!preset) {
+      sendError(res, 404, 'PRESET_NOT_FOUND', { name })
+      return
+    }
+    sides.push(preset.ids)
+  }
+  const { added, removed, moved, unchanged } = diffSelections(sides[0], sides[1])
+  res.json({
+    added: added.slice(0, MAX_DIFF_ITEMS),
+    removed: removed.slice(0, MAX_DIFF_ITEMS),
+    moved: moved.slice(0, MAX_DIFF_ITEMS),
+    counts: { added: added.length, removed: removed.length, moved: moved.length, unchanged },
+  })
+})
+
+const publishGroupsChange = (workspace, origin) => {
+  publish(workspace, 'groups-changed', { version: workspace.version, groups: workspace.groups, origin })
+}
+
+const readGroupParam = (req, res) => {
+  const group = findGroup(req.workspace, Number(req.params.id))
+  if (!group) sendError(res, 404, 'GROUP_NOT_FOUND', { id: req.params.id })
+  return group ?? null
+}
+
+app.post('/api/groups', auth.requireEditor, async (req, res) => {
+  const { workspace } = req
+  const { name, error } = readDisplayName(req.body?.name, MAX_GROUP_NAME_LENGTH)
+  if (error) {
+    res.status(400).json({ error })
+    return
+  }
+  const group = await withSelectionLock(workspace, async () => {
+    if (workspace.groups.length >= MAX_GROUPS) return null
+    const created = { id: workspace.nextGroupId, name }
+    await appendRecord(workspace, { type: 'group', group: created })
+    saveGroup(workspace, created)
+    publishGroupsChange(workspace, getOrigin(req))
+    return created
+  })
+  if (!group) {
+    sendError(res, 400, 'TOO_MANY_GROUPS', { max: MAX_GROUPS })
+    return
+  }
+  res.status(201).json({ group })
+})
+
+app.put('/api/groups/:id', auth.requireEditor, async (req, res) => {
+  const { workspace } = req
+  const group = readGroupParam(req, res)
+  if (!group) return
+  const { name, error } = readDisplayName(req.body?.name, MAX_GROUP_NAME_LENGTH)
+  if (error) {
+    res.status(400).json({ error })
+    return
+  }
+  const renamed = await withSelectionLock(workspace, async () => {
+    if (!findGroup(workspace, group.id)) return null
+    const next = { id: group.id, name }
+    await appendRecord(workspace, { type: 'group', group: next })
+    saveGroup(workspace, next)
+    publishGroupsChange(workspace, getOrigin(req))
+    return next
+  })
+  if (!renamed) {
+    sendError(res, 404, 'GROUP_NOT_FOUND', { id: group.id })
+    return
+  }
+  res.json({ group: renamed })
+})
+
+app.delete('/api/groups/:id', auth.requireEditor, async (req, res) => {
+  const { workspace } = req
+  if (!readGroupParam(req, res)) return
+  const id = Number(req.params.id)
+  workspace.selectionBatcher.flush()
+  await withSelectionLock(workspace, async () => {
+    if (!findGroup(workspace, id)) return
+    await appendRecord(workspace, { type: 'group-delete', id })
+    dropGroup(workspace, id)
+    publishGroupsChange(workspace, getOrigin(req))
+  })
+  res.status(204).end()
+})
+
+app.get('/api/events', (req, res) => {
+  const { workspace } = req
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  })
+  res.flushHeaders()
+  res.write(`retry: ${EVENTS_RETRY}\n\n`)
+  res.write(
+    `event: ready\ndata: ${JSON.stringify({ version: workspace.version, added: workspace.addedIds.size })}\n\n`
+  )
+  workspace.subscribers.add(res)
+  req.on('close', () => workspace.subscribers.delete(res))
+})
+
+app.get('/api/export', (req, res) => {
+  const { workspace } = req
+  const target = req.query.target
+  const format = req.query.format
+  if (!TRANSFER_TARGETS.has(target) || !IMPORT_FORMATS.has(format)) {
+    sendError(res, 400, 'INVALID_FIELD', { field: TRANSFER_TARGETS.has(target) ? 'format' : 'target' })
+    return
+  }
+  const ids = target === 'selection' ? workspace.selectedIds : getSortedAdded(workspace)
+  const file = formatExport(format, ids, { workspace: workspace.id, target })
+  res.attachment(file.fileName)
+  res.type(file.contentType)
+  res.send(file.body)
+})
+
+app.post('/api/import', auth.requireEditor, async (req, res) => {
+  const { workspace } = req
+  const target = req.body?.target
+  const mode = req.body?.mode === 'append' ? 'append' : 'replace'
+  if (!TRANSFER_TARGETS.has(target)) {
+    sendError(res, 400, 'INVALID_FIELD', { field: 'target' })
+    return
+  }
+  const parsed = parseImport(req.body?.format, req.body?.content)
+  if (parsed.error) {
+    res.status(400).json({ error: parsed.error })
+    return
+  }
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    sendError(res, 400, 'TOO_MANY_ROWS', { max: MAX_IMPORT_ROWS })
+    return
+  }
+
+  const rejected = []
+  const rowsById = new Map()
+  for (const row of parsed.rows) {
+    const id = parseImportedId(row.value)
+    if (!Number.isSafeInteger(id) || id <= 0) {
+      rejected.push({ ...row, reason: createError('INVALID_ID') })
+      continue
+    }
+    if (!rowsById.has(id)) rowsById.set(id, [])
+    rowsById.get(id).push(row)
+  }
+  const ids = Array.from(rowsById.keys())
+
+  const toAdd = target === 'added' ? ids : ids.filter((id) => !hasId(workspace, id))
+  let added = []
+  const failed = new Set()
+  if (toAdd.length) {
+    const pending = workspace.addBatcher.enqueue(toAdd)
+    await workspace.addBatcher.flush()
+    const result = await pending
+    added = result.added
+    const reasons = new Map(result.rejected.map((item) => [item.id, item.reason]))
+    for (const id of toAdd) {
+      const reason = reasons.get(id)
+      if (!reason || (target === 'selection' && hasId(workspace, id))) continue
+      failed.add(id)
+      for (const row of rowsById.get(id)) {
+        rejected.push({ ...row, reason })
+      }
+    }
+  }
+
+  let imported = added.length
+  if (target === 'selection') {
+    workspace.selectionBatcher.flush()
+    imported = await withSelectionLock(workspace, async () => {
+      const accepted = []
+      for (const id of ids) {
+        if (hasId(workspace, id)) {
+          accepted.push(id)
+        } else if (!failed.has(id)) {
+          for (const row of rowsById.get(id)) {
+            rejected.push({ ...row, reason: createError('ID_NOT_FOUND') })
+          }
+        }
+      }
+      const next =
+        mode === 'replace'
+          ? accepted
+          : [...workspace.selectedIds, ...accepted.filter((id) => !workspace.selectedLookup.has(id))]
+      if (isSameOrder(next, workspace.selectedIds)) return accepted.length
+      await appendRecord(workspace, { type: 'selection', ids: next })
+      const previousIds = workspace.selectedIds
+      replaceSelection(workspace, next)
+      publishSelectionChange(workspace, previousIds, getOrigin(req))
+      return accepted.length
+    })
+  }
+
+  rejected.sort((a, b) => a.row - b.row)
+  res.json({
+    rows: parsed.rows.length,
+    imported,
+    added,
+    rejected,
+    selected: workspace.selectedIds.length,
+    version: workspace.version,
+    history: getHistoryCounts(workspace),
+  })
+})
+
 app.post('/api/query', async (req, res) => {
-  const queries = Array.isArray(req.body?.queries) ? req.body.queries : []
-  const result = await queryBatcher.enqueue(queries)
-  res.json(result)
+  const queries = req.body?.queries
+  if (!Array.isArray(queries)) {
+    sendError(res, 400, 'INVALID_FIELD', { field: 'queries' })
+    return
+  }
+  if (queries.length > MAX_QUERIES_PER_REQUEST) {
+    sendError(res, 400, 'TOO_MANY_QUERIES', { max: MAX_QUERIES_PER_REQUEST })
+    return
+  }
+  const results = {}
+  const groups = new Map()
+  for (const query of queries) {
+    const collectionId = query?.collection ?? req.workspace.collection.id
+    if (!collections.has(collectionId)) {
+      if (query?.key) results[query.key] = { items: [], total: 0, error: createError('COLLECTION_NOT_FOUND') }
+      continue
+    }
+    const group = groups.get(collectionId) ?? []
+    group.push(query)
+    groups.set(collectionId, group)
+  }
+  const responses = await Promise.all(
+    Array.from(groups, ([collectionId, group]) =>
+      peekWorkspace(req.workspace.id, collectionId, res).queryBatcher.enqueue(group)
+    )
+  )
+  responses.forEach((response) => Object.assign(results, response.results))
+  const writeIds = negotiateIdEncoding(req, res)
+  for (const [key, result] of Object.entries(results)) {
+    results[key] = { ...result, items: writeIds(result.items) }
+  }
+  res.json({ results })
+})
+
+app.use('/api', (error, req, res, next) => {
+  if (res.headersSent) {
+    next(error)
+    return
+  }
+  if (error.type === 'entity.parse.failed') {
+    sendError(res, 400, 'INVALID_JSON')
+    return
+  }
+  if (error.type === 'entity.too.large') {
+    sendError(res, 413, 'PAYLOAD_TOO_LARGE')
+    return
+  }
+  req.log.error('request failed', { method: req.method, url: req.originalUrl, error })
+  sendError(res, 500, 'INTERNAL_ERROR')
 })
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url))
 const distPath = path.join(__dirname, '../dist')
 if (fs.existsSync(distPath)) {
   app.use(express.static(distPath))
@@ -307,6 +1837,69 @@ if (fs.existsSync(distPath)) {
   })
 }
 
-app.listen(PORT, () => {
-  console.log(`API server running on port ${PORT}`)
+getWorkspace(DEFAULT_WORKSPACE)
+restoreState(await storage.load())
+logger.info('storage loaded', { driver: storage.name, collections: collections.size, workspaces: workspaces.size })
+logger.info('access control', {
+  auth: auth.enabled,
+  rateLimit: RATE_LIMIT,
+  corsOrigins: corsOrigins.length ? corsOrigins : '*',
 })
+ready = true
+
+const snapshotTimer = setInterval(() => {
+  storage.compact(getSnapshot).catch((error) => {
+    logger.error('storage snapshot failed', { error })
+  })
+}, SNAPSHOT_INTERVAL)
+snapshotTimer.unref()
+
+const heartbeatTimer = setInterval(() => {
+  for (const workspace of getLiveWorkspaces()) {
+    for (const res of workspace.subscribers) {
+      res.write(': ping\n\n')
+    }
+  }
+}, EVENTS_HEARTBEAT_INTERVAL)
+heartbeatTimer.unref()
+
+const server = app.listen(PORT, () => {
+  logger.info('server listening', { port: PORT })
+})
+
+let shuttingDown = false
+const shutdown = async (signal) => {
+  if (shuttingDown) return
+  shuttingDown = true
+  ready = false
+  logger.info('shutdown requested, flushing pending batches', { signal })
+  clearInterval(snapshotTimer)
+  clearInterval(heartbeatTimer)
+  setTimeout(() => process.exit(1), SHUTDOWN_TIMEOUT).unref()
+  const closed = new Promise((resolve) => server.close(resolve))
+  const live = getLiveWorkspaces()
+  for (const workspace of live) {
+    for (const res of workspace.subscribers) {
+      res.end()
+    }
+    workspace.subscribers.clear()
+  }
+  try {
+    const pending = []
+    for (const workspace of live) {
+      pending.push(workspace.addBatcher.flush(), workspace.selectionBatcher.flush())
+    }
+    await Promise.allSettled(pending)
+    // Meta, preset and group writes still in progress hold the selection lock.
+    await Promise.allSettled(live.map((workspace) => withSelectionLock(workspace, async () => {})))
+    await storage.close(getSnapshot)
+  } catch (error) {
+    logger.error('failed to persist state on shutdown', { error })
+    process.exit(1)
+  }
+  await closed
+  process.exit(0)
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+process.on('SIGINT', () => shutdown('SIGINT'))
@@ -0,0 +1,18 @@
+const serializeError = (error) =>
+  error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error
+
+const write = (level, message, fields) => {
+  const entry = { time: new Date().toISOString(), level, message }
+  for (const [key, value] of Object.entries(fields)) {
+    entry[key] = key === 'error' ? serializeError(value) : value
+  }
+  const stream = level === 'error' ? process.stderr : process.stdout
+  stream.write(`${JSON.stringify(entry)}\n`)
+}
+
+export const createLogger = (context = {}) => ({
+  info: (message, fields = {}) => write('info', message, { ...context, ...fields }),
+  warn: (message, fields = {}) => write('warn', message, { ...context, ...fields }),
+  error: (message, fields = {}) => write('error', message, { ...context, ...fields }),
+  child: (fields) => createLogger({ ...context, ...fields }),
+})
@@ -0,0 +1,70 @@
+export const DURATION_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+export const SIZE_BUCKETS = [1, 2, 5, 10, 25, 50, 100, 250, 1000, 10_000]
+
+const escapeLabel = (value) => String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+
+const formatLabels = (labels) => {
+  const entries = Object.entries(labels)
+  if (!entries.length) return ''
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`
+}
+
+const formatValue = (value) => (value === Infinity ? '+Inf' : String(value))
+
+export const createMetrics = () => {
+  const metrics = []
+
+  const register = (name, help, type, render) => {
+    metrics.push({ name, help, type, render })
+  }
+
+  const gauge = (name, help, collect) => {
+    register(name, help, 'gauge', () =>
+      collect().map(({ labels = {}, value }) => `${name}${formatLabels(labels)} ${formatValue(value)}`)
+    )
+  }
+
+  const histogram = (name, help, buckets = DURATION_BUCKETS) => {
+    const series = new Map()
+    register(name, help, 'histogram', () => {
+      const lines = []
+      for (const { labels, counts, sum, count } of series.values()) {
+        buckets.forEach((bound, index) => {
+          lines.push(`${name}_bucket${formatLabels({ ...labels, le: bound })} ${counts[index]}`)
+        })
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+        lines.push(`${name}_sum${formatLabels(labels)} ${sum}`)
+        lines.push(`${name}_count${formatLabels(labels)} ${count}`)
+      }
+      return lines
+    })
+    return {
+      observe(labels, value) {
+        const key = formatLabels(labels)
+        let entry = series.get(key)
+        if (!entry) {
+          entry = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 }
+          series.set(key, entry)
+        }
+        buckets.forEach((bound, index) => {
+          if (value <= bound) entry.counts[index] += 1
+        })
+        entry.sum += value
+        entry.count += 1
+      },
+    }
+  }
+
+  const render = () =>
+    metrics
+      .flatMap(({ name, help, type, render: renderValues }) => [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} ${type}`,
+        ...renderValues(),
+      ])
+      .join('\n') + '\n'
+
+  return { gauge, histogram, render }
+}
+
+export const secondsSince = (start) => (performance.now() - start) / 1000
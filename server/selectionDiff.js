@@ -0,0 +1,33 @@
+const findLongestIncreasing = (values) => {
+  const tails = []
+  const previous = new Array(values.length)
+  values.forEach((value, index) => {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const middle = (low + high) >>> 1
+      if (values[tails[middle]] < value) low = middle + 1
+      else high = middle
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1
+    tails[low] = index
+  })
+  const kept = new Set()
+  for (let index = tails.length ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+    kept.add(index)
+  }
+  return kept
+}
+
+export const diffSelections = (from, to) => {
+  const fromPositions = new Map(from.map((id, index) => [id, index]))
+  const toPositions = new Map(to.map((id, index) => [id, index]))
+  const added = to.filter((id) => !fromPositions.has(id))
+  const removed = from.filter((id) => !toPositions.has(id))
+  const common = to.filter((id) => fromPositions.has(id))
+  const stayed = findLongestIncreasing(common.map((id) => fromPositions.get(id)))
+  const moved = common
+    .filter((_, index) => !stayed.has(index))
+    .map((id) => ({ id, from: fromPositions.get(id), to: toPositions.get(id) }))
+  return { added, removed, moved, unchanged: stayed.size }
+}
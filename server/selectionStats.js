@@ -0,0 +1,31 @@
+export const MAX_STATS_BUCKETS = 100
+
+export const pickBucketSize = (span, count = 10) => {
+  const target = Math.max(Math.ceil(span / count), 1)
+  for (let power = 1; ; power *= 10) {
+    const step = [1, 2, 5].find((factor) => factor * power >= target)
+    if (step) return step * power
+  }
+}
+
+export const summarizeSelection = (ids, { baseMax, bucketSize, matches }) => {
+  const buckets = Array.from({ length: Math.ceil(baseMax / bucketSize) }, (_, index) => ({
+    from: index * bucketSize + 1,
+    to: Math.min((index + 1) * bucketSize, baseMax),
+    count: 0,
+  }))
+  let base = 0
+  let matching = 0
+  let min = null
+  let max = null
+  for (const id of ids) {
+    if (id <= baseMax) {
+      base += 1
+      buckets[Math.floor((id - 1) / bucketSize)].count += 1
+    }
+    if (matches(id)) matching += 1
+    if (min === null || id < min) min = id
+    if (max === null || id > max) max = id
+  }
+  return { base, custom: ids.length - base, min, max, matching, bucketSize, buckets }
+}
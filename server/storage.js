@@ -0,0 +1,120 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+const SNAPSHOT_FILE = 'snapshot.json'
+const JOURNAL_FILE = 'journal.log'
+
+export const createMemoryStorage = () => ({
+  name: 'memory',
+  async load() {
+    return { snapshot: null, records: [] }
+  },
+  async append() {},
+  async compact() {},
+  async close() {},
+})
+
+const readJson = async (filePath) => {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'))
+  } catch (error) {
+    if (error.code === 'ENOENT') return null
+    throw error
+  }
+}
+
+const readJournal = async (filePath) => {
+  let content
+  try {
+    content = await fs.readFile(filePath, 'utf8')
+  } catch (error) {
+    if (error.code === 'ENOENT') return []
+    throw error
+  }
+  const records = []
+  const lines = content.split('\n')
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index]
+    if (!line) continue
+    try {
+      records.push(JSON.parse(line))
+    } catch (error) {
+      // Only the last line may be torn by a crash in the middle of a write.
+      if (index === lines.length - 1) break
+      throw new Error(`Corrupted journal ${filePath}, line ${index + 1}: ${error.message}`)
+    }
+  }
+  return records
+}
+
+export const createFileStorage = ({ dir }) => {
+  const snapshotPath = path.join(dir, SNAPSHOT_FILE)
+  const journalPath = path.join(dir, JOURNAL_FILE)
+  let journal = null
+  let journalLength = 0
+  let chain = Promise.resolve()
+
+  // All writes go through one chain so journal records and snapshots never interleave.
+  const enqueue = (operation) => {
+    const next = chain.then(operation)
+    chain = next.catch(() => {})
+    return next
+  }
+
+  const openJournal = async () => {
+    if (!journal) {
+      journal = await fs.open(journalPath, 'a')
+    }
+    return journal
+  }
+
+  return {
+    name: 'file',
+    async load() {
+      await fs.mkdir(dir, { recursive: true })
+      const snapshot = await readJson(snapshotPath)
+      const records = await readJournal(journalPath)
+      journalLength = records.length
+      return { snapshot, records }
+    },
+    append(record) {
+      return enqueue(async () => {
+        const handle = await openJournal()
+        await handle.write(`${JSON.stringify(record)}\n`)
+        await handle.datasync()
+        journalLength += 1
+      })
+    },
+    // Runs after earlier appends were applied, so the snapshot covers the journal it truncates.
+    compact(getSnapshot) {
+      return enqueue(async () => {
+        if (!journalLength) return
+        await new Promise((resolve) => setImmediate(resolve))
+        const tmpPath = `${snapshotPath}.tmp`
+        await fs.writeFile(tmpPath, JSON.stringify(getSnapshot()))
+        await fs.rename(tmpPath, snapshotPath)
+        const handle = await openJournal()
+        await handle.truncate(0)
+        await handle.datasync()
+        journalLength = 0
+      })
+    },
+    async close(getSnapshot) {
+      if (getSnapshot) {
+        await this.compact(getSnapshot)
+      }
+      await enqueue(async () => {
+        if (journal) {
+          await journal.close()
+          journal = null
+        }
+      })
+    },
+  }
+}
+
+export const createStorage = ({ driver, dir }) => {
+  if (!driver || driver === 'memory') return createMemoryStorage()
+  if (driver === 'file') return createFileStorage({ dir })
+  throw new Error(`Unknown storage driver: ${driver}`)
+}
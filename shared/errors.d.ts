@@ -0,0 +1,49 @@
+export type ErrorCode =
+  | 'INVALID_JSON'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'INVALID_FIELD'
+  | 'INVALID_WORKSPACE'
+  | 'INVALID_COLLECTION'
+  | 'COLLECTION_NOT_FOUND'
+  | 'COLLECTION_EXISTS'
+  | 'COLLECTION_NOT_DELETABLE'
+  | 'UNKNOWN_QUERY_TYPE'
+  | 'INVALID_CURSOR'
+  | 'INVALID_ID'
+  | 'INVALID_ID_ENTRY'
+  | 'ID_IN_BASE_RANGE'
+  | 'ID_ALREADY_ADDED'
+  | 'ID_NOT_DELETABLE'
+  | 'ID_NOT_FOUND'
+  | 'TOO_MANY_IDS'
+  | 'TOO_MANY_OPS'
+  | 'TOO_MANY_ROWS'
+  | 'INVALID_RANGE'
+  | 'RANGE_REVERSED'
+  | 'FILTER_NUMBER_TOO_LARGE'
+  | 'FILTER_NUMBER_EXPECTED'
+  | 'FILTER_UNRECOGNIZED'
+  | 'FILTER_TOO_MANY_TERMS'
+  | 'UNKNOWN_TAG'
+  | 'FIELD_NOT_STRING'
+  | 'FIELD_TOO_LONG'
+  | 'UNKNOWN_BULK_ACTION'
+  | 'INVALID_OP'
+  | 'SELECTION_CONFLICT'
+  | 'PRESET_NOT_FOUND'
+  | 'TOO_MANY_PRESETS'
+  | 'GROUP_NOT_FOUND'
+  | 'TOO_MANY_GROUPS'
+  | 'INVALID_JSON_FILE'
+  | 'INVALID_JSON_SHAPE'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'RATE_LIMITED'
+  | 'TOO_MANY_QUERIES'
+  | 'INTERNAL_ERROR'
+
+export type ErrorParams = Record<string, string | number>
+
+export type ErrorInfo = { code: ErrorCode; params?: ErrorParams }
+
+export function createError(code: ErrorCode, params?: ErrorParams): ErrorInfo
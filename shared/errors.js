@@ -0,0 +1,7 @@
+// Machine-readable errors shared by the API server and the browser client.
+//
+// The server never sends prose: an error is `{ code, params }`, where `params` carries the values the
+// message needs (a field name, a limit, the offending filter term). Clients render it in their own
+// language; the codes are listed in `errors.d.ts` and must stay stable.
+
+export const createError = (code, params) => (params ? { code, params } : { code })
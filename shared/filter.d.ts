@@ -0,0 +1,25 @@
+import type { ErrorInfo } from './errors.js'
+import type { ItemMeta, TagColor } from './itemMeta.js'
+
+export type FilterTerm =
+  | { kind: 'contains' | 'prefix' | 'suffix'; value: string }
+  | { kind: 'exact'; value: number }
+  | { kind: 'range'; from: number; to: number }
+  | { kind: 'tag'; value: TagColor }
+  | { kind: 'label'; value: string }
+
+export type ParsedFilter = { ok: true; terms: FilterTerm[] } | { ok: false; error: ErrorInfo }
+
+export type CompiledFilter =
+  | { ok: true; terms: FilterTerm[]; matches: (id: number, meta?: ItemMeta) => boolean }
+  | { ok: false; error: ErrorInfo }
+
+export const MAX_FILTER_TERMS: number
+
+export function parseFilter(input: string): ParsedFilter
+
+export function isMetaTerm(term: FilterTerm): boolean
+
+export function createTermsMatcher(terms: FilterTerm[]): (id: number, meta?: ItemMeta) => boolean
+
+export function compileFilter(input: string): CompiledFilter
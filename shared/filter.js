@@ -0,0 +1,123 @@
+// Filter language shared by the API server and the browser client.
+//
+//   42          ID contains "42"
+//   42*         starts with "42"
+//   *00         ends with "00"
+//   *42*        contains "42" (explicit form)
+//   =123        exactly 123
+//   500-510     from 500 to 510 inclusive
+//   12, 15, 900-950   any of the terms
+//   #red        colour tag (also by its Russian name, `#красный`)
+//   склад       label contains the word, case-insensitive
+//
+// Terms are separated by commas or spaces. An empty filter matches every ID. Tag and label terms
+// look at item metadata (`shared/itemMeta.js`), the rest at the digits of the ID.
+
+import { createError } from './errors.js'
+import { findTagColor } from './itemMeta.js'
+
+export const MAX_FILTER_TERMS = 32
+
+const DIGITS_PATTERN = /^\d+$/
+const LETTER_PATTERN = /\p{L}/u
+
+const parseNumber = (digits) => {
+  const value = Number(digits)
+  return Number.isSafeInteger(value) ? value : null
+}
+
+const parseTerm = (term) => {
+  const range = /^(\d+)-(\d+)$/.exec(term)
+  if (range) {
+    const from = parseNumber(range[1])
+    const to = parseNumber(range[2])
+    if (from === null || to === null) {
+      return { error: createError('FILTER_NUMBER_TOO_LARGE', { value: term }) }
+    }
+    if (from > to) {
+      return { error: createError('RANGE_REVERSED', { value: term }) }
+    }
+    return { term: { kind: 'range', from, to } }
+  }
+
+  if (term.startsWith('=')) {
+    const digits = term.slice(1)
+    const value = DIGITS_PATTERN.test(digits) ? parseNumber(digits) : null
+    if (value === null) {
+      return { error: createError('FILTER_NUMBER_EXPECTED', { value: term }) }
+    }
+    return { term: { kind: 'exact', value } }
+  }
+
+  if (term.startsWith('#')) {
+    const color = findTagColor(term.slice(1))
+    if (!color) {
+      return { error: createError('UNKNOWN_TAG', { value: term }) }
+    }
+    return { term: { kind: 'tag', value: color.value } }
+  }
+
+  const leading = term.startsWith('*')
+  const trailing = term.length > 1 && term.endsWith('*')
+  const digits = term.slice(leading ? 1 : 0, trailing ? -1 : undefined)
+  if (!DIGITS_PATTERN.test(digits)) {
+    if (LETTER_PATTERN.test(term)) return { term: { kind: 'label', value: term.toLowerCase() } }
+    return { error: createError('FILTER_UNRECOGNIZED', { value: term }) }
+  }
+  if (leading && !trailing) return { term: { kind: 'suffix', value: digits } }
+  if (trailing && !leading) return { term: { kind: 'prefix', value: digits } }
+  return { term: { kind: 'contains', value: digits } }
+}
+
+export const parseFilter = (input) => {
+  const normalized = typeof input === 'string' ? input.trim().replace(/\s*-\s*/g, '-').replace(/=\s+/g, '=') : ''
+  const parts = normalized.split(/[\s,]+/).filter(Boolean)
+  if (parts.length > MAX_FILTER_TERMS) {
+    return { ok: false, error: createError('FILTER_TOO_MANY_TERMS', { max: MAX_FILTER_TERMS }) }
+  }
+  const terms = []
+  for (const part of parts) {
+    const parsed = parseTerm(part)
+    if (parsed.error) return { ok: false, error: parsed.error }
+    terms.push(parsed.term)
+  }
+  return { ok: true, terms }
+}
+
+export const isMetaTerm = (term) => term.kind === 'tag' || term.kind === 'label'
+
+const testTerm = (term, id, text, meta) => {
+  switch (term.kind) {
+    case 'contains':
+      return text.includes(term.value)
+    case 'prefix':
+      return text.startsWith(term.value)
+    case 'suffix':
+      return text.endsWith(term.value)
+    case 'exact':
+      return id === term.value
+    case 'range':
+      return id >= term.from && id <= term.to
+    case 'tag':
+      return meta?.tag === term.value
+    case 'label':
+      return meta?.label?.toLowerCase().includes(term.value) ?? false
+    default:
+      return false
+  }
+}
+
+// The matcher takes the ID and its metadata, if any.
+export const createTermsMatcher = (terms) => {
+  if (!terms.length) return () => true
+  return (id, meta) => {
+    const text = String(id)
+    return terms.some((term) => testTerm(term, id, text, meta))
+  }
+}
+
+export const compileFilter = (input) => {
+  const parsed = parseFilter(input)
+  if (!parsed.ok) return parsed
+  return { ok: true, terms: parsed.terms, matches: createTermsMatcher(parsed.terms) }
+}
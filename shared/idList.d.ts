@@ -0,0 +1,5 @@
+import type { ErrorInfo } from './errors.js'
+
+export const MAX_ID_LIST_SIZE: number
+
+export function parseIdList(input: string): { ok: true; ids: number[] } | { ok: false; error: ErrorInfo }
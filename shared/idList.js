@@ -0,0 +1,60 @@
+// Lists of IDs typed into the add form; the API server applies the same size limit.
+//
+//   1000001                     one ID
+//   1000001, 1000005 1000007    several IDs, separated by commas or spaces
+//   1000010-1000500             a range, inclusive
+//
+// Duplicates are dropped, the order of first appearance is kept.
+
+import { createError } from './errors.js'
+
+export const MAX_ID_LIST_SIZE = 10_000
+
+const ID_PATTERN = /^\d+$/
+const RANGE_PATTERN = /^(\d+)-(\d+)$/
+
+const parseId = (digits) => {
+  const value = Number(digits)
+  return Number.isSafeInteger(value) && value > 0 ? value : null
+}
+
+/** Returns `{ ok: true, ids }` or `{ ok: false, error }`. */
+export const parseIdList = (input) => {
+  const normalized = typeof input === 'string' ? input.trim().replace(/\s*-\s*/g, '-') : ''
+  const parts = normalized.split(/[\s,;]+/).filter(Boolean)
+  const seen = new Set()
+  const ids = []
+  const push = (id) => {
+    if (seen.has(id)) return true
+    if (ids.length >= MAX_ID_LIST_SIZE) return false
+    seen.add(id)
+    ids.push(id)
+    return true
+  }
+  const tooMany = { ok: false, error: createError('TOO_MANY_IDS', { max: MAX_ID_LIST_SIZE }) }
+
+  for (const part of parts) {
+    const range = RANGE_PATTERN.exec(part)
+    if (range) {
+      const from = parseId(range[1])
+      const to = parseId(range[2])
+      if (from === null || to === null) {
+        return { ok: false, error: createError('INVALID_ID_ENTRY', { value: part }) }
+      }
+      if (from > to) {
+        return { ok: false, error: createError('RANGE_REVERSED', { value: part }) }
+      }
+      if (to - from + 1 > MAX_ID_LIST_SIZE) return tooMany
+      for (let id = from; id <= to; id += 1) {
+        if (!push(id)) return tooMany
+      }
+      continue
+    }
+    const id = ID_PATTERN.test(part) ? parseId(part) : null
+    if (id === null) {
+      return { ok: false, error: createError('INVALID_ID_ENTRY', { value: part }) }
+    }
+    if (!push(id)) return tooMany
+  }
+  return { ok: true, ids }
+}
@@ -0,0 +1,9 @@
+/** An ordered ID list in which runs of consecutive IDs may be written as `[first, last]`. */
+export type IdRanges = Array<number | [number, number]>
+
+export const ID_ENCODING_HEADER: string
+export const ID_RANGES_ENCODING: string
+
+export function encodeIdRanges(ids: number[]): IdRanges
+
+export function decodeIdRanges(entries: IdRanges, max?: number): number[] | null
@@ -0,0 +1,56 @@
+// Compact wire form of ordered ID lists, used when a request carries `X-Id-Encoding: ranges`.
+// A run of three or more consecutive IDs, counting up or down, becomes a `[first, last]` pair and
+// every other ID stays a plain number, so the order is kept:
+//
+//   [1, 2, 3, 4, 5, 9, 8, 7, 6, 12]   →   [[1, 5], [9, 6], 12]
+//
+// A plain ID array is already valid in this form, so readers can decode whatever they receive.
+
+export const ID_ENCODING_HEADER = 'X-Id-Encoding'
+export const ID_RANGES_ENCODING = 'ranges'
+
+const isId = (value) => Number.isSafeInteger(value) && value > 0
+
+export const encodeIdRanges = (ids) => {
+  const encoded = []
+  let index = 0
+  while (index < ids.length) {
+    const first = ids[index]
+    const step = ids[index + 1] - first
+    let last = index
+    if (step === 1 || step === -1) {
+      while (last + 1 < ids.length && ids[last + 1] - ids[last] === step) last += 1
+    }
+    if (last - index >= 2) {
+      encoded.push([first, ids[last]])
+      index = last + 1
+    } else {
+      encoded.push(first)
+      index += 1
+    }
+  }
+  return encoded
+}
+
+/**
+ * Expands an encoded list. Plain entries are passed through as they are, for the caller to
+ * validate; returns null when `entries` is not an array, a pair is malformed or the list would
+ * hold more than `max` entries.
+ */
+export const decodeIdRanges = (entries, max = Infinity) => {
+  if (!Array.isArray(entries)) return null
+  const ids = []
+  for (const entry of entries) {
+    if (!Array.isArray(entry)) {
+      if (ids.length >= max) return null
+      ids.push(entry)
+      continue
+    }
+    const [first, last] = entry
+    if (entry.length !== 2 || !isId(first) || !isId(last)) return null
+    if (ids.length + Math.abs(last - first) + 1 > max) return null
+    const step = last >= first ? 1 : -1
+    for (let id = first; id !== last + step; id += step) ids.push(id)
+  }
+  return ids
+}
@@ -0,0 +1,14 @@
+import type { ErrorInfo } from './errors.js'
+
+export type TagColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'gray'
+
+export type ItemMeta = { label?: string; tag?: TagColor; note?: string }
+
+export const MAX_LABEL_LENGTH: number
+export const MAX_NOTE_LENGTH: number
+
+export const TAG_COLORS: { value: TagColor; alias: string }[]
+
+export function findTagColor(name: string): { value: TagColor; alias: string } | null
+
+export function normalizeItemMeta(input: unknown): { meta: ItemMeta | null; error?: undefined } | { error: ErrorInfo }
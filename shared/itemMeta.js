@@ -0,0 +1,53 @@
+// Optional metadata attached to an ID: a short label, a colour tag and a free-text note.
+// Shared by the API server (validation) and the browser client (editor, filter).
+
+import { createError } from './errors.js'
+
+export const MAX_LABEL_LENGTH = 80
+export const MAX_NOTE_LENGTH = 1000
+
+// `alias` is the Russian name the filter accepts next to the value; display names live in the client catalogs.
+export const TAG_COLORS = [
+  { value: 'red', alias: 'красный' },
+  { value: 'orange', alias: 'оранжевый' },
+  { value: 'yellow', alias: 'жёлтый' },
+  { value: 'green', alias: 'зелёный' },
+  { value: 'blue', alias: 'синий' },
+  { value: 'purple', alias: 'фиолетовый' },
+  { value: 'gray', alias: 'серый' },
+]
+
+const TAG_VALUES = new Set(TAG_COLORS.map((color) => color.value))
+
+// The filter accepts a tag by its value or by its Russian name: `#red` or `#красный`.
+export const findTagColor = (name) => {
+  const lower = name.toLowerCase()
+  return TAG_COLORS.find((color) => color.value === lower || color.alias === lower) ?? null
+}
+
+const readText = (value, limit, field) => {
+  if (value === undefined || value === null) return { value: '' }
+  if (typeof value !== 'string') return { error: createError('FIELD_NOT_STRING', { field }) }
+  const trimmed = value.trim()
+  if (trimmed.length > limit) return { error: createError('FIELD_TOO_LONG', { field, max: limit }) }
+  return { value: trimmed }
+}
+
+/**
+ * Validates metadata sent by a client. Returns `{ meta }` with empty fields dropped, where
+ * `meta` is null when nothing is left, or `{ error }`.
+ */
+export const normalizeItemMeta = (input) => {
+  if (!input || typeof input !== 'object') return { error: createError('INVALID_FIELD', { field: 'body' }) }
+  const label = readText(input.label, MAX_LABEL_LENGTH, 'label')
+  if (label.error) return label
+  const note = readText(input.note, MAX_NOTE_LENGTH, 'note')
+  if (note.error) return note
+  const tag = input.tag === undefined || input.tag === null || input.tag === '' ? '' : input.tag
+  if (tag && !TAG_VALUES.has(tag)) return { error: createError('UNKNOWN_TAG', { value: String(tag) }) }
+  const meta = {}
+  if (label.value) meta.label = label.value
+  if (tag) meta.tag = tag
+  if (note.value) meta.note = note.value
+  return { meta: Object.keys(meta).length ? meta : null }
+}
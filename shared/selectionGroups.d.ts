@@ -0,0 +1,12 @@
+export type SelectionGroup = { id: number; name: string }
+
+export type GroupSection = { group: number | null; ids: number[] }
+
+export const MAX_GROUPS: number
+export const MAX_GROUP_NAME_LENGTH: number
+
+export function splitByGroup(
+  ids: number[],
+  groupOf: ReadonlyMap<number, number>,
+  groups: readonly SelectionGroup[]
+): GroupSection[]
@@ -0,0 +1,17 @@
+// Groups split the selection into named sections. A group only names its members: they keep their
+// place in the selection order, and every section lists its members in that order. IDs without a
+// group, or whose group no longer exists, form the leading section, keyed by null.
+
+export const MAX_GROUPS = 20
+export const MAX_GROUP_NAME_LENGTH = 64
+
+// Sections of `ids` in display order: the ungrouped IDs first, then every group, empty ones included.
+export const splitByGroup = (ids, groupOf, groups) => {
+  const sections = [{ group: null, ids: [] }, ...groups.map((group) => ({ group: group.id, ids: [] }))]
+  const byGroup = new Map(sections.map((section) => [section.group, section]))
+  for (const id of ids) {
+    const section = byGroup.get(groupOf.get(id) ?? null) ?? sections[0]
+    section.ids.push(id)
+  }
+  return sections
+}
@@ -0,0 +1,21 @@
+export type SelectionOp =
+  | { op: 'insert'; id: number; index: number }
+  | { op: 'move'; id: number; index: number }
+  | { op: 'remove'; id: number }
+  | { op: 'group'; id: number; group: number | null }
+
+export const MAX_SELECTION_OPS: number
+
+export function isValidSelectionOp(op: unknown): op is SelectionOp
+
+export function applySelectionOps(
+  ids: number[],
+  ops: SelectionOp[],
+  groupOf?: ReadonlyMap<number, number>
+): { ids: number[]; groupOf: Map<number, number>; applied: number; inverse: SelectionOp[] }
+
+export function createBlockMoveOps(
+  ids: number[],
+  block: number[],
+  afterId: number | null
+): { ops: SelectionOp[]; ids: number[] }
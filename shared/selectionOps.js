@@ -0,0 +1,90 @@
+// Selection mutations shared by the API server and the browser client.
+//
+//   { op: 'insert', id, index }   put `id` at `index` if it is not selected yet
+//   { op: 'move', id, index }     move a selected `id` so that it ends up at `index`
+//   { op: 'remove', id }          drop `id` from the selection
+//   { op: 'group', id, group }    put a selected `id` into group `group`, or into none when it is null
+//
+// Indexes are clamped to the list bounds. Operations that no longer make sense (inserting an ID that
+// is already selected, moving or removing one that is not) are skipped, which lets the client replay
+// its pending operations on top of a newer server state.
+//
+// `inverse` lists the operations that turn the result back into the original list; the server keeps
+// them as undo history. Group membership is a map from ID to group that only selected IDs appear in;
+// removing an ID drops its membership and undoing the removal brings it back.
+
+export const MAX_SELECTION_OPS = 1000
+
+const OP_TYPES = new Set(['insert', 'move', 'remove', 'group'])
+
+export const isValidSelectionOp = (op) => {
+  if (!op || typeof op !== 'object' || !OP_TYPES.has(op.op)) return false
+  if (!Number.isSafeInteger(op.id) || op.id <= 0) return false
+  if (op.op === 'remove') return true
+  if (op.op === 'group') return op.group === null || (Number.isSafeInteger(op.group) && op.group > 0)
+  return Number.isSafeInteger(op.index) && op.index >= 0
+}
+
+const clampIndex = (index, length) => Math.min(Math.max(index, 0), length)
+
+export const applySelectionOps = (ids, ops, groupOf = new Map()) => {
+  const next = [...ids]
+  const present = new Set(next)
+  const nextGroupOf = new Map(groupOf)
+  const inverse = []
+  let applied = 0
+  for (const op of ops) {
+    if (op.op === 'insert') {
+      if (present.has(op.id)) continue
+      next.splice(clampIndex(op.index, next.length), 0, op.id)
+      present.add(op.id)
+      inverse.push({ op: 'remove', id: op.id })
+      applied += 1
+    } else if (op.op === 'remove') {
+      if (!present.has(op.id)) continue
+      const index = next.indexOf(op.id)
+      next.splice(index, 1)
+      present.delete(op.id)
+      // Pushed first so that, once `inverse` is reversed, the ID is back before it rejoins its group.
+      if (nextGroupOf.has(op.id)) {
+        inverse.push({ op: 'group', id: op.id, group: nextGroupOf.get(op.id) })
+        nextGroupOf.delete(op.id)
+      }
+      inverse.push({ op: 'insert', id: op.id, index })
+      applied += 1
+    } else if (op.op === 'move') {
+      if (!present.has(op.id)) continue
+      const index = next.indexOf(op.id)
+      next.splice(index, 1)
+      next.splice(clampIndex(op.index, next.length), 0, op.id)
+      inverse.push({ op: 'move', id: op.id, index })
+      applied += 1
+    } else if (op.op === 'group') {
+      const previous = nextGroupOf.get(op.id) ?? null
+      if (!present.has(op.id) || previous === op.group) continue
+      if (op.group === null) nextGroupOf.delete(op.id)
+      else nextGroupOf.set(op.id, op.group)
+      inverse.push({ op: 'group', id: op.id, group: previous })
+      applied += 1
+    }
+  }
+  return { ids: next, groupOf: nextGroupOf, applied, inverse: inverse.reverse() }
+}
+
+// Moves `block` (IDs in the order they should end up in) right after `afterId`, or to the start
+// when `afterId` is null, as one `move` per block item. Returns the operations and the resulting list.
+export const createBlockMoveOps = (ids, block, afterId) => {
+  const next = [...ids]
+  const ops = []
+  let anchor = afterId
+  for (const id of block) {
+    const from = next.indexOf(id)
+    if (from === -1) continue
+    next.splice(from, 1)
+    const index = anchor === null ? 0 : next.indexOf(anchor) + 1
+    next.splice(index, 0, id)
+    ops.push({ op: 'move', id, index })
+    anchor = id
+  }
+  return { ops, ids: next }
+}
@@ -1,92 +1,244 @@
 import {
   useCallback,
   useEffect,
+  useMemo,
   useRef,
   useState,
+  useSyncExternalStore,
   type DragEvent,
-  type FormEvent,
+  type KeyboardEvent as ReactKeyboardEvent,
+  type MouseEvent,
+  type PointerEvent as ReactPointerEvent,
   type ReactNode,
 } from 'react'
 import './App.css'
-import { enqueueAddition, persistSelection, runQuery } from './api/client'
+import {
+  AVAILABLE_SORTS,
+  CLIENT_ID,
+  createGroup,
+  DEFAULT_COLLECTION,
+  deleteGroup,
+  deleteItems,
+  enqueueAdditions,
+  findPosition,
+  getOutboxStatus,
+  getApiKey,
+  getCollection,
+  getScopeKey,
+  getSelectionVersion,
+  getWorkspace,
+  isAbortError,
+  loadSelection,
+  redoSelection,
+  renameGroup,
+  runBulkSelection,
+  runQuery,
+  SELECTED_SORTS,
+  setApiKey,
+  setCollection,
+  setWorkspace,
+  submitSelectionOps,
+  subscribeToOutbox,
+  undoSelection,
+  updateItemMeta,
+  type AvailableSort,
+  type BulkCommand,
+  type ImportResult,
+  type ItemMeta,
+  type LoadedSelection,
+  type PresetRestoreResult,
+  type SelectionGroup,
+  type SelectionHistory,
+  type SelectedSort,
+  type SelectionOp,
+} from './api/client'
+import { subscribeToEvents, type ConnectionStatus, type SelectionEvent } from './api/events'
+import { ApiKeyControl } from './components/ApiKeyControl'
+import { BulkActionButton } from './components/BulkActionButton'
+import { CollectionPicker } from './components/CollectionPicker'
+import { ConnectionIndicator } from './components/ConnectionIndicator'
+import { CustomIdsForm } from './components/CustomIdsForm'
+import { GoToControl, type GoToMode } from './components/GoToControl'
+import { GroupHeader } from './components/GroupHeader'
+import { GroupToolbar, type GroupScope } from './components/GroupToolbar'
+import { ImportExportDialog } from './components/ImportExportDialog'
+import { ItemLabel } from './components/ItemLabel'
+import { ItemMetaEditor } from './components/ItemMetaEditor'
+import { LanguageSwitcher } from './components/LanguageSwitcher'
+import { OutboxBadge } from './components/OutboxBadge'
+import { PresetDrawer } from './components/PresetDrawer'
+import { RangeSelect } from './components/RangeSelect'
+import { SortSelect } from './components/SortSelect'
+import { StatsPanel } from './components/StatsPanel'
+import { WorkspaceSwitcher } from './components/WorkspaceSwitcher'
 import { useDebouncedValue } from './hooks/useDebouncedValue'
+import { useI18n } from './hooks/useI18n'
+import { usePagedIds, type PageRequest } from './hooks/usePagedIds'
+import { getLocale, getTranslator, type Translator } from './i18n'
+import { compileFilter } from '../shared/filter.js'
+import { splitByGroup } from '../shared/selectionGroups.js'
+import { applySelectionOps, createBlockMoveOps } from '../shared/selectionOps.js'
 
 const PAGE_SIZE = 20
 
+const getCurrentScopeKey = () => getScopeKey(getWorkspace(), getCollection())
+// Fixed row pitch (row plus gap) the virtual lists are laid out with; keep in sync with `.list__slot`.
+const ROW_HEIGHT = 64
+const OVERSCAN = 8
+// Browsers cap element heights at a few million pixels, so longer lists scroll a scaled-down canvas.
+const MAX_CANVAS_HEIGHT = 4_000_000
+const HIGHLIGHT_DURATION = 2000
+
+const getScrollGeometry = (total: number, viewportHeight: number) => {
+  const fullHeight = total * ROW_HEIGHT
+  const canvasHeight = Math.min(fullHeight, MAX_CANVAS_HEIGHT)
+  const ratio =
+    fullHeight === canvasHeight ? 1 : Math.max(fullHeight - viewportHeight, 0) / Math.max(canvasHeight - viewportHeight, 1)
+  return {
+    canvasHeight,
+    toVirtual: (scrollTop: number) => scrollTop * ratio,
+    toScroll: (virtualTop: number) => Math.min(virtualTop, Math.max(fullHeight - viewportHeight, 0)) / ratio,
+  }
+}
+
+type ScrollTarget = { index: number }
+
 type ScrollListProps<T> = {
-  items: T[]
-  renderItem: (item: T) => ReactNode
-  hasMore: boolean
+  total: number
+  getItem: (index: number) => T | undefined
+  renderItem: (item: T, index: number) => ReactNode
+  getItemKey?: (item: T) => string
   isLoading: boolean
   emptyPlaceholder: string
-  onLoadMore: () => void
+  onRangeChange?: (start: number, end: number) => void
+  scrollTarget?: ScrollTarget | null
+  resetKey?: string
+  label?: string
+  multiselectable?: boolean
 }
 
-function ScrollList<T>({ items, renderItem, hasMore, isLoading, emptyPlaceholder, onLoadMore }: ScrollListProps<T>) {
-  const sentinelRef = useRef<HTMLDivElement | null>(null)
-  const loadingRef = useRef(isLoading)
-  const interactedRef = useRef(false)
+function ScrollList<T>({
+  total,
+  getItem,
+  renderItem,
+  getItemKey = String,
+  isLoading,
+  emptyPlaceholder,
+  onRangeChange,
+  scrollTarget,
+  resetKey,
+  label,
+  multiselectable,
+}: ScrollListProps<T>) {
+  const { t } = useI18n()
+  const viewportRef = useRef<HTMLDivElement | null>(null)
+  const totalRef = useRef(total)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [viewportHeight, setViewportHeight] = useState(0)
 
   useEffect(() => {
-    loadingRef.current = isLoading
-  }, [isLoading])
+    totalRef.current = total
+  }, [total])
 
   useEffect(() => {
-    if (typeof window === 'undefined') return
-    const markScroll = () => {
-      interactedRef.current = true
-    }
-    window.addEventListener('scroll', markScroll, { passive: true })
-    window.addEventListener('wheel', markScroll, { passive: true })
-    window.addEventListener('touchmove', markScroll, { passive: true })
-    return () => {
-      window.removeEventListener('scroll', markScroll)
-      window.removeEventListener('wheel', markScroll)
-      window.removeEventListener('touchmove', markScroll)
-    }
+    const viewport = viewportRef.current
+    if (!viewport) return
+    const observer = new ResizeObserver(() => setViewportHeight(viewport.clientHeight))
+    observer.observe(viewport)
+    return () => observer.disconnect()
   }, [])
 
   useEffect(() => {
-    const sentinel = sentinelRef.current
-    if (!sentinel || !hasMore) return
-    let pending = false
-    const observer = new IntersectionObserver(
-      (entries) => {
-        const entry = entries[0]
-        if (!entry?.isIntersecting) {
-          pending = false
-          return
-        }
-        if (!interactedRef.current || loadingRef.current || pending) return
-        pending = true
-        interactedRef.current = false
-        onLoadMore()
-      },
-      { root: null, rootMargin: '200px 0px 0px 0px', threshold: 0 }
-    )
-    observer.observe(sentinel)
-    return () => observer.disconnect()
-  }, [hasMore, onLoadMore])
+    if (viewportRef.current) viewportRef.current.scrollTop = 0
+  }, [resetKey])
 
   useEffect(() => {
-    if (typeof window === 'undefined') return
-    if (!hasMore || isLoading) return
-    const doc = document.documentElement
-    if (doc.scrollHeight <= window.innerHeight + 20) {
-      onLoadMore()
-    }
-  }, [hasMore, isLoading, items.length, onLoadMore])
+    const viewport = viewportRef.current
+    if (!scrollTarget || !viewport) return
+    const geometry = getScrollGeometry(totalRef.current, viewport.clientHeight)
+    viewport.scrollTop = geometry.toScroll(scrollTarget.index * ROW_HEIGHT)
+  }, [scrollTarget])
+
+  const geometry = getScrollGeometry(total, viewportHeight)
+  const virtualTop = geometry.toVirtual(scrollTop)
+  const start = Math.max(Math.floor(virtualTop / ROW_HEIGHT) - OVERSCAN, 0)
+  const end = Math.min(Math.ceil((virtualTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN, total)
+
+  useEffect(() => {
+    if (end > start) onRangeChange?.(start, end)
+  }, [end, onRangeChange, start])
+
+  const rows: ReactNode[] = []
+  for (let index = start; index < end; index += 1) {
+    const item = getItem(index)
+    const top = scrollTop + index * ROW_HEIGHT - virtualTop
+    rows.push(
+      <div
+        key={item === undefined ? `index:${index}` : `item:${getItemKey(item)}`}
+        className="list__slot"
+        style={{ transform: `translateY(${top}px)` }}
+      >
+        {item === undefined ? <div className="row row--placeholder">{t('common.loading')}</div> : renderItem(item, index)}
+      </div>
+    )
+  }
 
   return (
-    <div className="list">
-      {items.map((item) => renderItem(item))}
-      {isLoading && <div className="hint">Загрузка...</div>}
-      {!isLoading && items.length === 0 && <div className="hint">{emptyPlaceholder}</div>}
-      {hasMore && <div ref={sentinelRef} className="list__sentinel" aria-hidden />}
+    <div
+      ref={viewportRef}
+      className="list"
+      role={multiselectable ? 'listbox' : undefined}
+      aria-label={label}
+      aria-multiselectable={multiselectable || undefined}
+      onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+    >
+      <div className="list__canvas" style={{ height: geometry.canvasHeight }}>
+        {rows}
+      </div>
+      {total === 0 && <div className="hint">{isLoading ? t('common.loading') : emptyPlaceholder}</div>}
     </div>
   )
 }
 
+const getFilterMatcher = (value: string, meta: Map<number, ItemMeta> = new Map()) => {
+  const compiled = compileFilter(value)
+  return compiled.ok ? (id: number) => compiled.matches(id, meta.get(id)) : () => false
+}
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')
+
+type BlockMove = 'up' | 'down' | 'top' | 'bottom'
+
+const KEYBOARD_MOVES: Partial<Record<string, BlockMove>> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  Home: 'top',
+  End: 'bottom',
+}
+
+const findPrecedingOutside = (ids: number[], index: number, block: Set<number>) => {
+  for (let position = index - 1; position >= 0; position -= 1) {
+    if (!block.has(ids[position])) return ids[position]
+  }
+  return null
+}
+
+const describeMove = ({ t }: Translator, block: number[], position: number) =>
+  block.length === 1
+    ? t('announce.movedOne', { id: block[0], position })
+    : t('announce.movedMany', { count: block.length, position })
+
+type GroupRow = { group: number | null; count: number; total: number }
+type SelectedRow = number | GroupRow
+
+const getGroupRowKey = (group: number | null) => `group:${group}`
+const getSelectedRowKey = (row: SelectedRow) => (typeof row === 'number' ? String(row) : getGroupRowKey(row.group))
+
+const getDisplayOrder = (ids: number[], groupOf: ReadonlyMap<number, number>, groups: SelectionGroup[]) =>
+  splitByGroup(ids, groupOf, groups).flatMap((section) => section.ids)
+
 const isSameOrder = (a: number[], b: number[]) => {
   if (a === b) return true
   if (a.length !== b.length) return false
@@ -94,29 +246,57 @@ const isSameOrder = (a: number[], b: number[]) => {
 }
 
 function App() {
+  const i18n = useI18n()
+  const { t, formatError, describeError } = i18n
+  const [workspace, setWorkspaceState] = useState(getWorkspace)
+  const [collection, setCollectionState] = useState(getCollection)
+  const scopeKey = getScopeKey(workspace, collection)
+  const [apiKey, setApiKeyState] = useState(getApiKey)
   const [availableFilter, setAvailableFilter] = useState('')
   const [selectedFilter, setSelectedFilter] = useState('')
   const debouncedAvailableFilter = useDebouncedValue(availableFilter, 300)
   const debouncedSelectedFilter = useDebouncedValue(selectedFilter, 300)
-
-  const [availableItems, setAvailableItems] = useState<number[]>([])
-  const [availableTotal, setAvailableTotal] = useState(0)
-  const [availableLoading, setAvailableLoading] = useState(false)
-  const [availableError, setAvailableError] = useState<string | null>(null)
+  const [availableSort, setAvailableSort] = useState<AvailableSort>('asc')
+  const [selectedSort, setSelectedSort] = useState<SelectedSort>('manual')
+  const manualOrder = selectedSort === 'manual'
 
   const [selectedIds, setSelectedIds] = useState<number[]>([])
   const selectionRef = useRef<number[]>([])
+  const [groups, setGroups] = useState<SelectionGroup[]>([])
+  const [groupOf, setGroupOf] = useState<Map<number, number>>(() => new Map())
+  const groupOfRef = useRef(groupOf)
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<number | null>>(() => new Set())
+  const [groupScope, setGroupScope] = useState<GroupScope>('all')
+  const activeScope = typeof groupScope === 'number' && !groups.some((group) => group.id === groupScope) ? 'all' : groupScope
   const [selectionLoading, setSelectionLoading] = useState(true)
-  const [selectedItems, setSelectedItems] = useState<number[]>([])
-  const [selectedTotal, setSelectedTotal] = useState(0)
-  const [selectedListLoading, setSelectedListLoading] = useState(false)
-  const [selectedListError, setSelectedListError] = useState<string | null>(null)
   const [draggingId, setDraggingId] = useState<number | null>(null)
-  const pendingOrderRef = useRef<number[] | null>(null)
+  const pendingDragRef = useRef<{ ids: number[]; groupOf: Map<number, number> } | null>(null)
+  const dragOriginRef = useRef<{ ids: number[]; groupOf: Map<number, number>; block: number[] } | null>(null)
+  const [pointerDrag, setPointerDrag] = useState<{ pointerId: number; list: HTMLElement | null } | null>(null)
+  const [markedIds, setMarkedIds] = useState<Set<number>>(() => new Set())
+  const markAnchorRef = useRef<number | null>(null)
+  const [incomingId, setIncomingId] = useState<number | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+  const [availableScroll, setAvailableScroll] = useState<ScrollTarget | null>(null)
+  const [selectedScroll, setSelectedScroll] = useState<ScrollTarget | null>(null)
+  const [highlightId, setHighlightId] = useState<number | null>(null)
+  const [itemMeta, setItemMeta] = useState<Map<number, ItemMeta>>(() => new Map())
+  const itemMetaRef = useRef(itemMeta)
+  const [editingId, setEditingId] = useState<number | null>(null)
 
-  const [addValue, setAddValue] = useState('')
-  const [statusMessage, setStatusMessage] = useState<string | null>(null)
+  const [bulkPending, setBulkPending] = useState(false)
+  const [history, setHistory] = useState<SelectionHistory>({ undo: 0, redo: 0 })
+  const [historyPending, setHistoryPending] = useState(false)
+  const [transferOpen, setTransferOpen] = useState(false)
+  const [presetsOpen, setPresetsOpen] = useState(false)
+  const [statsRevision, setStatsRevision] = useState(0)
 
+  const [statusMessage, setStatusMessage] = useState<string | null>(null)
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting')
+  const outboxStatus = useSyncExternalStore(subscribeToOutbox, () => getOutboxStatus(scopeKey))
+  const staleSelectionRef = useRef(false)
+  const liveStateRef = useRef({ dragging: false })
 
   const availableFilterRef = useRef(debouncedAvailableFilter)
   useEffect(() => {
@@ -128,135 +308,238 @@ function App() {
     selectedFilterRef.current = debouncedSelectedFilter
   }, [debouncedSelectedFilter])
 
-  const removeIdFromAvailableList = useCallback((id: number) => {
-    let removed = false
-    setAvailableItems((prev) => {
-      if (!prev.includes(id)) return prev
-      removed = true
-      return prev.filter((value) => value !== id)
+  useEffect(() => {
+    itemMetaRef.current = itemMeta
+  }, [itemMeta])
+
+  const mergeItemMeta = useCallback((entries: Record<string, ItemMeta> | undefined) => {
+    if (!entries || !Object.keys(entries).length) return
+    setItemMeta((prev) => {
+      const next = new Map(prev)
+      for (const [id, meta] of Object.entries(entries)) {
+        next.set(Number(id), meta)
+      }
+      return next
     })
-    if (removed) {
-      setAvailableTotal((prev) => Math.max(prev - 1, 0))
-    }
   }, [])
 
-  const fetchAvailablePage = useCallback(async (filterValue: string, offset: number, append: boolean) => {
-    setAvailableLoading(true)
-    setAvailableError(null)
-    try {
+  const forgetItemMeta = useCallback((ids: number[]) => {
+    setItemMeta((prev) => {
+      if (!ids.some((id) => prev.has(id))) return prev
+      const next = new Map(prev)
+      ids.forEach((id) => next.delete(id))
+      return next
+    })
+  }, [])
+
+  const fetchAvailablePage = useCallback(
+    async ({ offset, limit, cursor }: PageRequest, signal: AbortSignal) => {
       const result = await runQuery({
-        key: `available:${filterValue}:${offset}`,
+        key: `available:${debouncedAvailableFilter}:${availableSort}:${cursor ?? offset}`,
         type: 'available',
-        filter: filterValue,
+        filter: debouncedAvailableFilter,
+        sort: availableSort,
         offset,
-        limit: PAGE_SIZE,
-      })
-      if (availableFilterRef.current !== filterValue) return
-      setAvailableTotal(result.total ?? 0)
-      setAvailableItems((prev) => {
-        if (!append) return result.items
-        const seen = new Set(prev)
-        const merged = [...prev]
-        for (const id of result.items) {
-          if (seen.has(id)) continue
-          seen.add(id)
-          merged.push(id)
-        }
-        return merged
-      })
-    } catch (error) {
-      if (availableFilterRef.current !== filterValue) return
-      const message = error instanceof Error ? error.message : 'Не удалось загрузить элементы'
-      setAvailableError(message)
-    } finally {
-      if (availableFilterRef.current === filterValue) {
-        setAvailableLoading(false)
+        limit,
+        cursor,
+      }, signal)
+      mergeItemMeta(result.meta)
+      return result
+    },
+    [availableSort, debouncedAvailableFilter, mergeItemMeta]
+  )
+
+  const available = usePagedIds(
+    `${scopeKey}:${debouncedAvailableFilter}:${availableSort}`,
+    fetchAvailablePage,
+    PAGE_SIZE,
+    compileFilter(debouncedAvailableFilter).ok
+  )
+  const { reload: reloadAvailable, removeId: removeIdFromAvailableList } = available
+
+  const { selectedRows, selectedView, selectedMatches } = useMemo(() => {
+    const filtered = debouncedSelectedFilter.trim()
+      ? selectedIds.filter(getFilterMatcher(debouncedSelectedFilter, itemMeta))
+      : selectedIds
+    const sorted =
+      selectedSort === 'manual' ? filtered : [...filtered].sort(selectedSort === 'asc' ? (a, b) => a - b : (a, b) => b - a)
+    const totals = new Map(splitByGroup(selectedIds, groupOf, groups).map((section) => [section.group, section.ids.length]))
+    let rows: SelectedRow[] = []
+    for (const section of splitByGroup(sorted, groupOf, groups)) {
+      if (activeScope !== 'all') {
+        if (section.group === activeScope) rows = section.ids
+        continue
       }
+      if (groups.length) rows.push({ group: section.group, count: section.ids.length, total: totals.get(section.group) ?? 0 })
+      if (!groups.length || !collapsedGroups.has(section.group)) rows = rows.concat(section.ids)
+    }
+    return {
+      selectedRows: rows,
+      selectedView: rows.filter((row): row is number => typeof row === 'number'),
+      selectedMatches: filtered.length,
     }
-  }, [runQuery])
+  }, [activeScope, collapsedGroups, debouncedSelectedFilter, groupOf, groups, itemMeta, selectedIds, selectedSort])
 
-  const refreshAvailable = useCallback(() => {
-    fetchAvailablePage(availableFilterRef.current, 0, false)
-  }, [fetchAvailablePage])
+  const adoptSelection = useCallback(
+    (result: LoadedSelection) => {
+      setSelectedIds(result.items)
+      selectionRef.current = result.items
+      setGroups(result.groups)
+      setGroupOf(result.groupOf)
+      groupOfRef.current = result.groupOf
+      setHistory(result.history)
+      mergeItemMeta(result.meta)
+      setStatsRevision((prev) => prev + 1)
+    },
+    [mergeItemMeta]
+  )
 
-  const fetchSelectedPage = useCallback(
-    async (filterValue: string, offset: number, append: boolean) => {
-      setSelectedListLoading(true)
-      setSelectedListError(null)
+  const reloadSelection = useCallback(async () => {
+    const requestedFor = getCurrentScopeKey()
+    try {
+      const result = await loadSelection()
+      if (getCurrentScopeKey() !== requestedFor) return
+      adoptSelection(result)
+    } catch (error) {
+      if (isAbortError(error) || getCurrentScopeKey() !== requestedFor) return
+      setStatusMessage(describeError(error, 'selection.loadFailed'))
+    }
+  }, [adoptSelection, describeError])
+
+  useEffect(() => {
+    liveStateRef.current = { dragging: draggingId !== null }
+  }, [draggingId])
+
+  const resetScopeState = useCallback(() => {
+    setSelectedIds([])
+    selectionRef.current = []
+    setGroups([])
+    setGroupOf(new Map())
+    groupOfRef.current = new Map()
+    setCollapsedGroups(new Set())
+    setGroupScope('all')
+    pendingDragRef.current = null
+    dragOriginRef.current = null
+    staleSelectionRef.current = false
+    setMarkedIds(new Set())
+    markAnchorRef.current = null
+    setHistory({ undo: 0, redo: 0 })
+    setDraggingId(null)
+    setItemMeta(new Map())
+    setEditingId(null)
+  }, [])
+
+  const handleCollectionChange = useCallback(
+    (next: string) => {
+      if (next === getCollection()) return
       try {
-        const result = await runQuery({
-          key: `selected:${filterValue}:${offset}`,
-          type: 'selected',
-          filter: filterValue,
-          offset,
-          limit: PAGE_SIZE,
-        })
-        if (selectedFilterRef.current !== filterValue) return
-        setSelectedTotal(result.total ?? 0)
-        setSelectedItems((prev) => {
-          if (!append) return result.items
-          const seen = new Set(prev)
-          const merged = [...prev]
-          for (const id of result.items) {
-            if (seen.has(id)) continue
-            seen.add(id)
-            merged.push(id)
-          }
-          return merged
-        })
+        setCollection(next)
       } catch (error) {
-        if (selectedFilterRef.current !== filterValue) return
-        const message = error instanceof Error ? error.message : 'Не удалось загрузить выбранные элементы'
-        setSelectedListError(message)
-      } finally {
-        if (selectedFilterRef.current === filterValue) {
-          setSelectedListLoading(false)
-        }
+        setStatusMessage(describeError(error, 'collection.switchFailed'))
+        return
       }
+      resetScopeState()
+      setCollectionState(next)
     },
-    [runQuery]
+    [describeError, resetScopeState]
   )
 
-  const refreshSelectedList = useCallback(() => {
-    fetchSelectedPage(selectedFilterRef.current, 0, false)
-  }, [fetchSelectedPage])
-
   useEffect(() => {
-    setAvailableItems([])
-    setAvailableTotal(0)
-    fetchAvailablePage(debouncedAvailableFilter, 0, false)
-  }, [debouncedAvailableFilter, fetchAvailablePage])
+    const handleRemoteSelection = (event: SelectionEvent, refreshLeft: boolean) => {
+      if (event.version >= getSelectionVersion()) setHistory(event.history)
+      if (event.origin === CLIENT_ID || event.version <= getSelectionVersion()) return
+      if (liveStateRef.current.dragging) {
+        staleSelectionRef.current = true
+        return
+      }
+      reloadSelection()
+      if (refreshLeft) reloadAvailable()
+    }
+    return subscribeToEvents(workspace, collection, {
+      onReady: (_event, reconnected) => {
+        if (!reconnected) return
+        reloadSelection()
+        reloadAvailable()
+      },
+      onSelectionChanged: (event) => handleRemoteSelection(event, true),
+      onOrderChanged: (event) => handleRemoteSelection(event, false),
+      onItemsAdded: (event) => {
+        if (event.ids.some(getFilterMatcher(availableFilterRef.current))) reloadAvailable()
+      },
+      onItemsRemoved: (event) => {
+        if (event.origin === CLIENT_ID) return
+        forgetItemMeta(event.ids)
+        reloadAvailable()
+      },
+      onMetaChanged: (event) => {
+        if (event.origin === CLIENT_ID) return
+        setItemMeta((prev) => {
+          const next = new Map(prev)
+          if (event.meta) next.set(event.id, event.meta)
+          else next.delete(event.id)
+          return next
+        })
+        if (availableFilterRef.current.trim()) reloadAvailable()
+      },
+      onGroupsChanged: (event) => {
+        if (event.origin === CLIENT_ID) return
+        if (liveStateRef.current.dragging) {
+          staleSelectionRef.current = true
+          return
+        }
+        reloadSelection()
+      },
+      onCollectionChanged: () => {
+        reloadSelection()
+        reloadAvailable()
+      },
+      onCollectionDeleted: (event) => {
+        handleCollectionChange(DEFAULT_COLLECTION)
+        setStatusMessage(getTranslator(getLocale()).t('collection.deleted', { id: event.id }))
+      },
+      onStatusChange: setConnectionStatus,
+    })
+  }, [apiKey, collection, forgetItemMeta, handleCollectionChange, reloadAvailable, reloadSelection, workspace])
 
-  useEffect(() => {
-    setSelectedItems([])
-    setSelectedTotal(0)
-    fetchSelectedPage(debouncedSelectedFilter, 0, false)
-  }, [debouncedSelectedFilter, fetchSelectedPage])
+  useEffect(
+    () =>
+      subscribeToOutbox((changed, replayed) => {
+        if (!replayed || changed !== scopeKey) return
+        reloadSelection()
+        reloadAvailable()
+      }),
+    [reloadAvailable, reloadSelection, scopeKey]
+  )
 
   useEffect(() => {
     let cancelled = false
-    const loadSelection = async () => {
+    const loadInitialSelection = async () => {
       setSelectionLoading(true)
       try {
-        const result = await runQuery({ key: 'selectionFull', type: 'selectionFull' })
+        const result = await loadSelection()
         if (cancelled) return
-        setSelectedIds(result.items ?? [])
-        selectionRef.current = result.items ?? []
+        adoptSelection(result)
       } catch (error) {
         if (cancelled) return
-        const message = error instanceof Error ? error.message : 'Ошибка при загрузке выбранных элементов'
-        setStatusMessage(message)
+        setStatusMessage(getTranslator(getLocale()).describeError(error, 'selection.loadFailed'))
       } finally {
         if (!cancelled) {
           setSelectionLoading(false)
         }
       }
     }
-    loadSelection()
+    loadInitialSelection()
     return () => {
       cancelled = true
     }
-  }, [runQuery])
+  }, [adoptSelection, scopeKey])
+
+  useEffect(() => {
+    const timer = highlightId === null ? null : setTimeout(() => setHighlightId(null), HIGHLIGHT_DURATION)
+    return () => {
+      if (timer) clearTimeout(timer)
+    }
+  }, [highlightId])
 
   useEffect(() => {
     const timer = statusMessage ? setTimeout(() => setStatusMessage(null), 4000) : null
@@ -269,270 +552,1022 @@ function App() {
     selectionRef.current = selectedIds
   }, [selectedIds])
 
-  type SelectionPersistOptions = { refreshLeft?: boolean; refreshSelected?: boolean }
-
-  const syncSelectedItemsFromSelection = useCallback(() => {
-    setSelectedItems((prev) => {
-      if (!prev.length) return prev
-      const filterValue = selectedFilterRef.current.trim()
-      const matchesFilter = filterValue ? (id: number) => String(id).includes(filterValue) : () => true
-      const nextItems: number[] = []
-      for (const id of selectionRef.current) {
-        if (!matchesFilter(id)) continue
-        nextItems.push(id)
-        if (nextItems.length >= prev.length) break
-      }
-      return nextItems
-    })
-  }, [])
+  useEffect(() => {
+    groupOfRef.current = groupOf
+  }, [groupOf])
+
+  type SelectionPersistOptions = { refreshLeft?: boolean }
 
   const persistSelectionChange = useCallback(
-    (ids: number[], options: SelectionPersistOptions = {}) => {
-      persistSelection(ids)
-        .then(() => {
-          if (options.refreshLeft) {
-            refreshAvailable()
+    (ops: SelectionOp[], options: SelectionPersistOptions = {}) => {
+      setHistory((prev) => ({ undo: prev.undo + 1, redo: 0 }))
+      submitSelectionOps(ops)
+        .then((result) => {
+          setStatsRevision((prev) => prev + 1)
+          if (result.rebased) {
+            reloadSelection()
+            reloadAvailable()
+            setStatusMessage(t(result.dropped ? 'selection.dropped' : 'selection.rebased'))
+            return
           }
-          if (options.refreshSelected) {
-            refreshSelectedList()
+          if (options.refreshLeft) {
+            reloadAvailable()
           }
         })
         .catch((error) => {
-          const message = error instanceof Error ? error.message : 'Не удалось сохранить выбор'
-          setStatusMessage(message)
+          setHistory((prev) => ({ ...prev, undo: Math.max(prev.undo - 1, 0) }))
+          reloadSelection()
+          reloadAvailable()
+          setStatusMessage(describeError(error, 'selection.saveFailed'))
         })
     },
-    [persistSelection, refreshAvailable, refreshSelectedList]
+    [describeError, reloadAvailable, reloadSelection, t]
   )
 
   const applySelection = useCallback(
-    (next: number[], options?: SelectionPersistOptions) => {
-      if (isSameOrder(next, selectionRef.current)) return
-      setSelectedIds(next)
-      selectionRef.current = next
-      syncSelectedItemsFromSelection()
-      persistSelectionChange(next, options)
+    (ops: SelectionOp[], options?: SelectionPersistOptions) => {
+      const result = applySelectionOps(selectionRef.current, ops, groupOfRef.current)
+      if (!result.applied) return
+      setSelectedIds(result.ids)
+      selectionRef.current = result.ids
+      setGroupOf(result.groupOf)
+      groupOfRef.current = result.groupOf
+      persistSelectionChange(ops, options)
     },
-    [persistSelectionChange, syncSelectedItemsFromSelection]
+    [persistSelectionChange]
   )
 
   const handleMoveToSelection = useCallback(
-    (id: number) => {
+    (id: number, beforeId: number | null = null, group?: number | null) => {
       const current = selectionRef.current
       if (current.includes(id)) return
       removeIdFromAvailableList(id)
-      const next = [...current, id]
-      const filterValue = selectedFilterRef.current.trim()
-      if (!filterValue || String(id).includes(filterValue)) {
-        setSelectedTotal((prev) => prev + 1)
+      const beforeIndex = beforeId === null ? -1 : current.indexOf(beforeId)
+      const index = beforeIndex === -1 ? current.length : beforeIndex
+      const scoped = activeScope === 'all' ? null : activeScope
+      const target =
+        group !== undefined
+          ? group
+          : beforeId !== null && beforeIndex !== -1
+            ? (groupOfRef.current.get(beforeId) ?? null)
+            : scoped
+      if (beforeIndex !== -1) {
+        setAnnouncement(t('announce.inserted', { id, position: index + 1 }))
       }
-      applySelection(next, { refreshLeft: true, refreshSelected: true })
+      const ops: SelectionOp[] = [{ op: 'insert', id, index }]
+      if (target !== null) ops.push({ op: 'group', id, group: target })
+      applySelection(ops, { refreshLeft: true })
     },
-    [applySelection, removeIdFromAvailableList]
+    [activeScope, applySelection, removeIdFromAvailableList, t]
   )
 
   const handleRemoveFromSelection = useCallback(
     (id: number) => {
+      if (!selectionRef.current.includes(id)) return
+      setMarkedIds((prev) => {
+        if (!prev.has(id)) return prev
+        const marked = new Set(prev)
+        marked.delete(id)
+        return marked
+      })
+      applySelection([{ op: 'remove', id }], { refreshLeft: true })
+    },
+    [applySelection]
+  )
+
+  const handleBulk = useCallback(
+    async (command: BulkCommand, describe: (affected: number) => string) => {
+      setBulkPending(true)
+      try {
+        const result = await runBulkSelection(command)
+        adoptSelection(await loadSelection())
+        reloadAvailable()
+        setStatusMessage(describe(result.affected))
+      } catch (error) {
+        setStatusMessage(describeError(error, 'bulk.failed'))
+      } finally {
+        setBulkPending(false)
+      }
+    },
+    [adoptSelection, describeError, reloadAvailable]
+  )
+
+  const handleHistoryStep = useCallback(
+    async (direction: 'undo' | 'redo') => {
+      setHistoryPending(true)
+      try {
+        const result = await (direction === 'undo' ? undoSelection() : redoSelection())
+        setHistory(result.history)
+        if (!result.changed) return
+        await reloadSelection()
+        reloadAvailable()
+        setStatusMessage(t(direction === 'undo' ? 'history.undone' : 'history.redone'))
+      } catch (error) {
+        setStatusMessage(describeError(error, 'history.failed'))
+      } finally {
+        setHistoryPending(false)
+      }
+    },
+    [describeError, reloadAvailable, reloadSelection, t]
+  )
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) return
+      // `code` keeps the shortcuts working in non-Latin keyboard layouts.
+      const redo = (event.code === 'KeyZ' && event.shiftKey) || (event.code === 'KeyY' && !event.shiftKey)
+      const undo = event.code === 'KeyZ' && !event.shiftKey
+      if (!undo && !redo) return
+      event.preventDefault()
+      if (historyPending || draggingId !== null) return
+      if (undo && history.undo > 0) handleHistoryStep('undo')
+      if (redo && history.redo > 0) handleHistoryStep('redo')
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [draggingId, handleHistoryStep, history, historyPending])
+
+  const handleCloseTransfer = useCallback(() => setTransferOpen(false), [])
+
+  const handleImported = useCallback(
+    (result: ImportResult) => {
+      setHistory(result.history)
+      reloadSelection()
+      reloadAvailable()
+    },
+    [reloadAvailable, reloadSelection]
+  )
+
+  const handleClosePresets = useCallback(() => setPresetsOpen(false), [])
+
+  const handlePresetRestored = useCallback(
+    (name: string, result: PresetRestoreResult) => {
+      setHistory(result.history)
+      reloadSelection()
+      reloadAvailable()
+      setStatusMessage(
+        result.skipped ? t('presets.restoredSkipped', { name, count: result.skipped }) : t('presets.restored', { name })
+      )
+    },
+    [reloadAvailable, reloadSelection, t]
+  )
+
+  const handleMoveBlock = useCallback(
+    (move: BlockMove, marked: Set<number>) => {
       const current = selectionRef.current
-      if (!current.includes(id)) return
-      const next = current.filter((value) => value !== id)
-      const filterValue = selectedFilterRef.current.trim()
-      if (!filterValue || String(id).includes(filterValue)) {
-        setSelectedTotal((prev) => Math.max(prev - 1, 0))
+      const block = current.filter((id) => marked.has(id))
+      if (!block.length) return
+      const blockSet = new Set(block)
+      let afterId: number | null = null
+      if (move === 'bottom') {
+        afterId = findPrecedingOutside(current, current.length, blockSet)
+      } else if (move !== 'top') {
+        const matches = getFilterMatcher(selectedFilterRef.current, itemMetaRef.current)
+        const edge = move === 'up' ? block[0] : block[block.length - 1]
+        const section = groupOfRef.current.get(edge) ?? null
+        const visible = current.filter((id) => matches(id) && (groupOfRef.current.get(id) ?? null) === section)
+        if (move === 'up') {
+          const first = visible.indexOf(block[0])
+          const neighbour = first === -1 ? null : findPrecedingOutside(visible, first, blockSet)
+          if (neighbour === null) return
+          afterId = findPrecedingOutside(current, current.indexOf(neighbour), blockSet)
+        } else {
+          const last = visible.indexOf(block[block.length - 1])
+          const neighbour = last === -1 ? undefined : visible.slice(last + 1).find((id) => !blockSet.has(id))
+          if (neighbour === undefined) return
+          afterId = neighbour
+        }
       }
-      applySelection(next, { refreshLeft: true, refreshSelected: true })
+      const { ops, ids: next } = createBlockMoveOps(current, block, afterId)
+      if (isSameOrder(next, current)) return
+      setAnnouncement(describeMove(i18n, block, getDisplayOrder(next, groupOfRef.current, groups).indexOf(block[0]) + 1))
+      applySelection(ops)
+    },
+    [applySelection, groups, i18n]
+  )
+
+  const handleMoveToGroup = useCallback(
+    (group: number | null, marked: Set<number>) => {
+      const ops: SelectionOp[] = selectionRef.current
+        .filter((id) => marked.has(id))
+        .map((id) => ({ op: 'group', id, group }))
+      applySelection(ops)
     },
     [applySelection]
   )
 
-  const handleDragStart = useCallback((event: DragEvent<HTMLDivElement>, id: number) => {
-    event.dataTransfer.effectAllowed = 'move'
-    setDraggingId(id)
+  const handleSelectedRowClick = useCallback(
+    (event: MouseEvent<HTMLDivElement>, id: number) => {
+      if ((event.target as HTMLElement).closest('button, input, select')) return
+      const anchor = markAnchorRef.current
+      if (event.shiftKey && anchor !== null && selectedView.includes(anchor)) {
+        const from = selectedView.indexOf(anchor)
+        const to = selectedView.indexOf(id)
+        setMarkedIds(new Set(selectedView.slice(Math.min(from, to), Math.max(from, to) + 1)))
+        return
+      }
+      markAnchorRef.current = id
+      if (event.ctrlKey || event.metaKey) {
+        setMarkedIds((prev) => {
+          const marked = new Set(prev)
+          if (!marked.delete(id)) marked.add(id)
+          return marked
+        })
+        return
+      }
+      setMarkedIds(new Set([id]))
+    },
+    [selectedView]
+  )
+
+  const handleSelectedRowKeyDown = useCallback(
+    (event: ReactKeyboardEvent<HTMLDivElement>, id: number) => {
+      if (event.target !== event.currentTarget) return
+      const block = markedIds.has(id) ? markedIds : new Set([id])
+      if (event.altKey) {
+        const move = KEYBOARD_MOVES[event.key]
+        if (!move || !manualOrder) return
+        event.preventDefault()
+        handleMoveBlock(move, block)
+        return
+      }
+      if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+        const index = selectedView.indexOf(id)
+        const siblingId = selectedView[event.key === 'ArrowUp' ? index - 1 : index + 1]
+        const sibling = event.currentTarget.closest('.list')?.querySelector<HTMLElement>(`[data-id="${siblingId}"]`)
+        if (siblingId === undefined || !sibling) return
+        event.preventDefault()
+        sibling.focus()
+        if (event.shiftKey) {
+          setMarkedIds((prev) => new Set(prev).add(id).add(siblingId))
+        }
+        return
+      }
+      if (event.key === ' ') {
+        event.preventDefault()
+        markAnchorRef.current = id
+        const marked = new Set(markedIds)
+        if (!marked.delete(id)) marked.add(id)
+        setMarkedIds(marked)
+        setAnnouncement(t('announce.marked', { count: marked.size }))
+        return
+      }
+      if (event.key === 'Escape' && markedIds.size) {
+        setMarkedIds(new Set())
+        setAnnouncement(t('announce.unmarked'))
+      }
+    },
+    [handleMoveBlock, manualOrder, markedIds, selectedView, t]
+  )
+
+  const startDrag = useCallback(
+    (id: number) => {
+      const current = selectionRef.current
+      const block = markedIds.has(id) ? current.filter((value) => markedIds.has(value)) : [id]
+      dragOriginRef.current = { ids: current, groupOf: groupOfRef.current, block }
+      setDraggingId(id)
+    },
+    [markedIds]
+  )
+
+  const handleDragStart = useCallback(
+    (event: DragEvent<HTMLDivElement>, id: number) => {
+      event.dataTransfer.effectAllowed = 'move'
+      event.dataTransfer.setData('text/plain', String(id))
+      startDrag(id)
+    },
+    [startDrag]
+  )
+
+  const previewDrag = useCallback((next: number[], group: number | null) => {
+    const origin = dragOriginRef.current
+    if (!origin) return
+    const current = groupOfRef.current
+    const regrouped = origin.block.some((id) => (current.get(id) ?? null) !== group)
+    if (isSameOrder(next, selectionRef.current) && !regrouped) return
+    const nextGroupOf = new Map(current)
+    origin.block.forEach((id) => (group === null ? nextGroupOf.delete(id) : nextGroupOf.set(id, group)))
+    setSelectedIds(next)
+    selectionRef.current = next
+    setGroupOf(nextGroupOf)
+    groupOfRef.current = nextGroupOf
+    pendingDragRef.current = { ids: next, groupOf: nextGroupOf }
   }, [])
 
+  const dragOverRow = useCallback(
+    (targetId: number) => {
+      const origin = dragOriginRef.current
+      if (!origin || origin.block.includes(targetId)) return
+      const current = selectionRef.current
+      const blockSet = new Set(origin.block)
+      const shown = getDisplayOrder(current, groupOfRef.current, groups)
+      const targetIndex = shown.indexOf(targetId)
+      const firstIndex = shown.indexOf(origin.block[0])
+      if (targetIndex === -1 || firstIndex === -1) return
+      const afterId =
+        targetIndex > firstIndex ? targetId : findPrecedingOutside(current, current.indexOf(targetId), blockSet)
+      previewDrag(createBlockMoveOps(current, origin.block, afterId).ids, groupOfRef.current.get(targetId) ?? null)
+    },
+    [groups, previewDrag]
+  )
+
+  const dragOverGroup = useCallback(
+    (group: number | null) => {
+      const origin = dragOriginRef.current
+      if (!origin) return
+      const current = selectionRef.current
+      const blockSet = new Set(origin.block)
+      const members = current.filter((id) => !blockSet.has(id) && (groupOfRef.current.get(id) ?? null) === group)
+      const next = members.length ? createBlockMoveOps(current, origin.block, members[members.length - 1]).ids : current
+      previewDrag(next, group)
+    },
+    [previewDrag]
+  )
+
   const handleDragOver = useCallback(
     (event: DragEvent<HTMLDivElement>, targetId: number) => {
       event.preventDefault()
-      if (draggingId === null || draggingId === targetId) return
-      const current = selectionRef.current
-      const fromIndex = current.indexOf(draggingId)
-      const toIndex = current.indexOf(targetId)
-      if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return
-      const next = [...current]
-      next.splice(fromIndex, 1)
-      next.splice(toIndex, 0, draggingId)
-      setSelectedIds(next)
-      selectionRef.current = next
-      setSelectedItems((prev) => {
-        const prevFrom = prev.indexOf(draggingId)
-        const prevTo = prev.indexOf(targetId)
-        if (prevFrom === -1 || prevTo === -1) return prev
-        const reordered = [...prev]
-        reordered.splice(prevFrom, 1)
-        reordered.splice(prevTo, 0, draggingId)
-        return reordered
-      })
-      pendingOrderRef.current = next
+      if (incomingId !== null) setDropTarget(getSelectedRowKey(targetId))
+      else dragOverRow(targetId)
     },
-    [draggingId]
+    [dragOverRow, incomingId]
+  )
+
+  const handleGroupDragOver = useCallback(
+    (event: DragEvent<HTMLDivElement>, group: number | null) => {
+      event.preventDefault()
+      if (incomingId !== null) setDropTarget(getGroupRowKey(group))
+      else dragOverGroup(group)
+    },
+    [dragOverGroup, incomingId]
   )
 
   const handleDragEnd = useCallback(() => {
     if (draggingId === null) return
     setDraggingId(null)
-    const pending = pendingOrderRef.current
-    pendingOrderRef.current = null
-    if (!pending) return
-    if (!isSameOrder(pending, selectionRef.current)) {
-      selectionRef.current = pending
-      setSelectedIds(pending)
+    const pending = pendingDragRef.current
+    const origin = dragOriginRef.current
+    pendingDragRef.current = null
+    dragOriginRef.current = null
+    if (pending && origin) {
+      if (!isSameOrder(pending.ids, selectionRef.current)) {
+        selectionRef.current = pending.ids
+        setSelectedIds(pending.ids)
+      }
+      groupOfRef.current = pending.groupOf
+      setGroupOf(pending.groupOf)
+      const ops: SelectionOp[] = []
+      if (!isSameOrder(pending.ids, origin.ids)) {
+        const afterId = findPrecedingOutside(pending.ids, pending.ids.indexOf(origin.block[0]), new Set(origin.block))
+        ops.push(...createBlockMoveOps(origin.ids, origin.block, afterId).ops)
+      }
+      const group = pending.groupOf.get(origin.block[0]) ?? null
+      origin.block.forEach((id) => {
+        if ((origin.groupOf.get(id) ?? null) !== group) ops.push({ op: 'group', id, group })
+      })
+      if (ops.length) {
+        const position = getDisplayOrder(pending.ids, pending.groupOf, groups).indexOf(origin.block[0]) + 1
+        setAnnouncement(describeMove(i18n, origin.block, position))
+        persistSelectionChange(ops)
+      }
     }
-    syncSelectedItemsFromSelection()
-    persistSelectionChange(pending)
-  }, [draggingId, persistSelectionChange, syncSelectedItemsFromSelection])
-
-  const selectedHasMore = selectedItems.length < selectedTotal
-  const availableHasMore = availableItems.length < availableTotal
-
-  const handleSelectedLoadMore = useCallback(() => {
-    if (selectedListLoading || !selectedHasMore) return
-    fetchSelectedPage(selectedFilterRef.current, selectedItems.length, true)
-  }, [fetchSelectedPage, selectedHasMore, selectedItems.length, selectedListLoading])
-
-  const handleAvailableLoadMore = useCallback(() => {
-    if (availableLoading || !availableHasMore) return
-    fetchAvailablePage(availableFilterRef.current, availableItems.length, true)
-  }, [availableHasMore, availableItems.length, availableLoading, fetchAvailablePage])
-
-  const handleAddCustom = useCallback(() => {
-    const trimmed = addValue.trim()
-    if (!trimmed) {
-      setStatusMessage('Введите ID для добавления')
-      return
+    if (staleSelectionRef.current) {
+      staleSelectionRef.current = false
+      reloadSelection()
+      reloadAvailable()
     }
-    const numericId = Number(trimmed)
-    if (!Number.isInteger(numericId) || numericId <= 0) {
-      setStatusMessage('ID должен быть положительным целым числом')
-      return
+  }, [draggingId, groups, i18n, persistSelectionChange, reloadAvailable, reloadSelection])
+
+  // HTML5 drag events never fire for touch and pens, so those drags follow the pointer instead.
+  const handleGripPointerDown = useCallback(
+    (event: ReactPointerEvent<HTMLSpanElement>, id: number) => {
+      if (event.pointerType === 'mouse' || pointerDrag) return
+      event.preventDefault()
+      startDrag(id)
+      setPointerDrag({ pointerId: event.pointerId, list: event.currentTarget.closest<HTMLElement>('.list') })
+    },
+    [pointerDrag, startDrag]
+  )
+
+  useEffect(() => {
+    if (!pointerDrag) return
+    const { pointerId, list } = pointerDrag
+    const handleMove = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return
+      const bounds = list?.getBoundingClientRect()
+      if (list && bounds && event.clientY < bounds.top + ROW_HEIGHT / 2) list.scrollTop -= ROW_HEIGHT / 4
+      if (list && bounds && event.clientY > bounds.bottom - ROW_HEIGHT / 2) list.scrollTop += ROW_HEIGHT / 4
+      const target = document
+        .elementFromPoint(event.clientX, event.clientY)
+        ?.closest<HTMLElement>('[data-id], [data-group]')
+      if (!target || !list?.contains(target)) return
+      if (target.dataset.id) dragOverRow(Number(target.dataset.id))
+      else if (target.dataset.group) dragOverGroup(target.dataset.group === 'none' ? null : Number(target.dataset.group))
     }
-    setStatusMessage(`ID ${numericId} поставлен в очередь на добавление`)
-    enqueueAddition(numericId)
-      .then((result) => {
-        setStatusMessage(result.message)
-        if (result.success) {
-          setAddValue('')
-          refreshAvailable()
-        }
-      })
-      .catch((error) => {
-        const message = error instanceof Error ? error.message : 'Не удалось добавить элемент'
-        setStatusMessage(message)
-      })
-  }, [addValue, enqueueAddition, refreshAvailable])
+    const handleUp = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return
+      setPointerDrag(null)
+      handleDragEnd()
+    }
+    window.addEventListener('pointermove', handleMove)
+    window.addEventListener('pointerup', handleUp)
+    window.addEventListener('pointercancel', handleUp)
+    return () => {
+      window.removeEventListener('pointermove', handleMove)
+      window.removeEventListener('pointerup', handleUp)
+      window.removeEventListener('pointercancel', handleUp)
+    }
+  }, [dragOverGroup, dragOverRow, handleDragEnd, pointerDrag])
+
+  const handleAvailableDragStart = useCallback((event: DragEvent<HTMLDivElement>, id: number) => {
+    event.dataTransfer.effectAllowed = 'move'
+    event.dataTransfer.setData('text/plain', String(id))
+    setIncomingId(id)
+  }, [])
+
+  const handleAvailableDragEnd = useCallback(() => {
+    setIncomingId(null)
+    setDropTarget(null)
+  }, [])
 
-  const handleAddSubmit = useCallback(
-    (event: FormEvent) => {
+  const handleSelectedDrop = useCallback(
+    (event: DragEvent<HTMLElement>, beforeId: number | null, group?: number | null) => {
+      if (incomingId === null) return
       event.preventDefault()
-      handleAddCustom()
+      event.stopPropagation()
+      handleMoveToSelection(incomingId, beforeId, group)
+      setIncomingId(null)
+      setDropTarget(null)
+    },
+    [handleMoveToSelection, incomingId]
+  )
+
+  const handleSaveMeta = useCallback(
+    async (id: number, meta: ItemMeta) => {
+      try {
+        const saved = await updateItemMeta(id, meta)
+        setItemMeta((prev) => {
+          const next = new Map(prev)
+          if (saved) next.set(id, saved)
+          else next.delete(id)
+          return next
+        })
+        setEditingId(null)
+        if (availableFilterRef.current.trim()) reloadAvailable()
+      } catch (error) {
+        setStatusMessage(describeError(error, 'meta.saveFailed'))
+      }
+    },
+    [describeError, reloadAvailable]
+  )
+
+  const handleAvailableGoTo = useCallback(
+    async (mode: GoToMode, value: number) => {
+      if (mode === 'position') {
+        if (value > available.total) return t('goTo.outOfRange', { count: available.total })
+        setAvailableScroll({ index: value - 1 })
+        return null
+      }
+      const position = await findPosition('available', availableFilterRef.current, value, availableSort)
+      if (position === null) return t('goTo.notFound', { id: value })
+      setAvailableScroll({ index: position })
+      setHighlightId(value)
+      return null
+    },
+    [available.total, availableSort, t]
+  )
+
+  const handleSelectedGoTo = useCallback(
+    async (mode: GoToMode, value: number) => {
+      if (mode === 'position') {
+        if (value > selectedView.length) return t('goTo.outOfRange', { count: selectedView.length })
+        setSelectedScroll({ index: selectedRows.indexOf(selectedView[value - 1]) })
+        return null
+      }
+      const position = selectedRows.indexOf(value)
+      if (position === -1) return t('goTo.notFound', { id: value })
+      setSelectedScroll({ index: position })
+      setHighlightId(value)
+      return null
+    },
+    [selectedRows, selectedView, t]
+  )
+
+  const handleAddIds = useCallback(
+    async (ids: number[]) => {
+      setStatusMessage(
+        ids.length === 1 ? t('add.queuedOne', { id: ids[0] }) : t('add.queuedMany', { count: ids.length })
+      )
+      try {
+        const { added, rejected } = await enqueueAdditions(ids)
+        if (ids.length === 1) {
+          setStatusMessage(
+            added.length ? t('add.addedOne', { id: ids[0] }) : rejected[0] ? formatError(rejected[0].reason) : t('add.notAdded')
+          )
+        } else {
+          setStatusMessage(
+            rejected.length
+              ? t('add.addedRejected', {
+                  count: added.length,
+                  rejected: rejected.length,
+                  reason: formatError(rejected[0].reason),
+                })
+              : t('add.added', { count: added.length })
+          )
+        }
+        if (!added.length) return false
+        reloadAvailable()
+        return true
+      } catch (error) {
+        setStatusMessage(describeError(error, 'add.failed'))
+        return false
+      }
+    },
+    [describeError, formatError, reloadAvailable, t]
+  )
+
+  const handleDeleteIds = useCallback(
+    async (ids: number[]) => {
+      try {
+        const result = await deleteItems(ids)
+        setStatusMessage(
+          result.rejected.length
+            ? t('delete.doneRejected', {
+                count: result.removed.length,
+                rejected: result.rejected.length,
+                reason: formatError(result.rejected[0].reason),
+              })
+            : t('delete.done', { count: result.removed.length })
+        )
+        if (!result.removed.length) return false
+        forgetItemMeta(result.removed)
+        setHistory(result.history)
+        reloadSelection()
+        reloadAvailable()
+        return true
+      } catch (error) {
+        setStatusMessage(describeError(error, 'delete.failed'))
+        return false
+      }
+    },
+    [describeError, forgetItemMeta, formatError, reloadAvailable, reloadSelection, t]
+  )
+
+  const handleWorkspaceChange = useCallback((next: string) => {
+    if (next === getWorkspace()) return
+    try {
+      setWorkspace(next)
+    } catch (error) {
+      setStatusMessage(describeError(error, 'workspace.switchFailed'))
+      return
+    }
+    resetScopeState()
+    setWorkspaceState(next)
+  }, [describeError, resetScopeState])
+
+  const handleApiKeyChange = useCallback(
+    (next: string) => {
+      setApiKey(next)
+      setApiKeyState(next)
+      setStatusMessage(null)
+      reloadSelection()
+      reloadAvailable()
+    },
+    [reloadAvailable, reloadSelection]
+  )
+
+  const handleCreateGroup = useCallback(
+    async (name: string) => {
+      try {
+        const group = await createGroup(name)
+        setGroups((prev) => (prev.some((entry) => entry.id === group.id) ? prev : [...prev, group]))
+        setStatusMessage(t('groups.created', { name: group.name }))
+        return true
+      } catch (error) {
+        setStatusMessage(describeError(error, 'groups.failed'))
+        return false
+      }
+    },
+    [describeError, t]
+  )
+
+  const handleRenameGroup = useCallback(
+    async (id: number, name: string) => {
+      try {
+        const group = await renameGroup(id, name)
+        setGroups((prev) => prev.map((entry) => (entry.id === group.id ? group : entry)))
+        return true
+      } catch (error) {
+        setStatusMessage(describeError(error, 'groups.failed'))
+        return false
+      }
+    },
+    [describeError]
+  )
+
+  const handleDeleteGroup = useCallback(
+    async (id: number, name: string) => {
+      try {
+        await deleteGroup(id)
+        await reloadSelection()
+        setStatusMessage(t('groups.deleted', { name }))
+      } catch (error) {
+        setStatusMessage(describeError(error, 'groups.failed'))
+      }
     },
-    [handleAddCustom]
+    [describeError, reloadSelection, t]
+  )
+
+  const toggleGroup = useCallback((group: number | null) => {
+    setCollapsedGroups((prev) => {
+      const next = new Set(prev)
+      if (!next.delete(group)) next.add(group)
+      return next
+    })
+  }, [])
+
+  const availableFilterCheck = compileFilter(availableFilter)
+  const selectedFilterCheck = compileFilter(selectedFilter)
+  const statsFilter = compileFilter(debouncedSelectedFilter).ok ? debouncedSelectedFilter : ''
+  const availablePlaceholder =
+    available.error !== null ? describeError(available.error, 'list.loadFailed') : t('list.noMatches')
+  const selectedPlaceholder = t(selectedIds.length ? 'list.noMatches' : 'list.emptySelection')
+
+  const renderSelectedRow = (id: number) => (
+    <div
+      className={[
+        'row',
+        'row--selected',
+        draggingId === id ? 'row--dragging' : '',
+        markedIds.has(id) ? 'row--marked' : '',
+        dropTarget === getSelectedRowKey(id) ? 'row--drop-target' : '',
+        highlightId === id ? 'row--highlight' : '',
+      ]
+        .filter(Boolean)
+        .join(' ')}
+      role="option"
+      aria-selected={markedIds.has(id)}
+      tabIndex={0}
+      data-id={id}
+      draggable={manualOrder && editingId !== id}
+      onClick={(event) => handleSelectedRowClick(event, id)}
+      onKeyDown={(event) => handleSelectedRowKeyDown(event, id)}
+      onDragStart={(event) => handleDragStart(event, id)}
+      onDragOver={(event) => {
+        if (manualOrder) handleDragOver(event, id)
+      }}
+      onDrop={(event) => handleSelectedDrop(event, manualOrder ? id : null)}
+      onDragEnd={handleDragEnd}
+    >
+      {editingId === id ? (
+        <ItemMetaEditor
+          id={id}
+          meta={itemMeta.get(id)}
+          onSave={(meta) => handleSaveMeta(id, meta)}
+          onCancel={() => setEditingId(null)}
+        />
+      ) : (
+        <>
+          <ItemLabel id={id} meta={itemMeta.get(id)} />
+          <div className="row__actions">
+            {manualOrder && (
+              <span
+                className="row__grip"
+                aria-hidden="true"
+                title={t('row.drag')}
+                onPointerDown={(event) => handleGripPointerDown(event, id)}
+              >
+                ⠿
+              </span>
+            )}
+            <button
+              type="button"
+              className="ghost row__edit"
+              onClick={() => setEditingId(id)}
+              aria-label={t('row.editMeta', { id })}
+              title={t('row.metaTitle')}
+            >
+              ✎
+            </button>
+            <button type="button" className="ghost" onClick={() => handleRemoveFromSelection(id)}>
+              {t('row.remove')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
   )
 
-  const availablePlaceholder = availableError ?? 'Совпадений не найдено'
-  const selectedPlaceholder =
-    selectedListError ?? (selectionLoading || selectedListLoading ? 'Загрузка выбранных элементов...' : 'Выбор пуст')
+  const renderGroupHeader = ({ group, count, total }: GroupRow) => {
+    const name = group === null ? t('groups.ungrouped') : (groups.find((entry) => entry.id === group)?.name ?? '')
+    return (
+      <GroupHeader
+        group={group}
+        name={name}
+        count={count}
+        total={total}
+        collapsed={collapsedGroups.has(group)}
+        dropTarget={dropTarget === getGroupRowKey(group)}
+        onToggle={() => toggleGroup(group)}
+        onRename={group === null ? undefined : (next) => handleRenameGroup(group, next)}
+        onDelete={group === null ? undefined : () => handleDeleteGroup(group, name)}
+        onDragOver={(event) => {
+          if (manualOrder || incomingId !== null) handleGroupDragOver(event, group)
+        }}
+        onDrop={(event) => handleSelectedDrop(event, null, group)}
+      />
+    )
+  }
 
   return (
     <div className="app">
       <header className="app__header">
         <div>
-          <h1>Менеджер элементов</h1>
+          <h1>{t('app.title')}</h1>
         </div>
-        <div className="status-line">
-          <span>Выбрано: {selectedIds.length}</span>
-          <span>Доступно: {availableTotal}</span>
+        <div className="header-controls">
+          <WorkspaceSwitcher value={workspace} onChange={handleWorkspaceChange} />
+          <CollectionPicker value={collection} onChange={handleCollectionChange} />
+          <ApiKeyControl value={apiKey} onChange={handleApiKeyChange} />
+          <LanguageSwitcher />
+          <ConnectionIndicator status={connectionStatus} />
+          <OutboxBadge status={outboxStatus} />
+          <button type="button" className="ghost" onClick={() => setTransferOpen(true)}>
+            {t('app.importExport')}
+          </button>
+          <button type="button" className="ghost" onClick={() => setPresetsOpen(true)}>
+            {t('app.presets')}
+          </button>
+          <div className="status-line">
+            <span>{t('app.selectedCount', { count: selectedIds.length })}</span>
+            <span>{t('app.availableCount', { count: available.total })}</span>
+          </div>
         </div>
       </header>
 
       {statusMessage && <div className="status-banner">{statusMessage}</div>}
+      {transferOpen && <ImportExportDialog onClose={handleCloseTransfer} onImported={handleImported} />}
+      {presetsOpen && <PresetDrawer onClose={handleClosePresets} onRestored={handlePresetRestored} />}
+      <StatsPanel filter={statsFilter} revision={statsRevision} />
 
       <main className="panels">
         <section className="panel">
           <div className="panel__header panel__header--with-actions">
-            <h2>Все элементы</h2>
-            <form className="add-form" onSubmit={handleAddSubmit}>
-              <input
-                type="text"
-                value={addValue}
-                onChange={(event) => setAddValue(event.target.value)}
-                placeholder="Новый ID"
-              />
-              <button type="submit">Добавить</button>
-            </form>
+            <h2>{t('list.available')}</h2>
+            <CustomIdsForm onAdd={handleAddIds} onDelete={handleDeleteIds} />
           </div>
           <div className="filter">
             <input
               type="search"
               value={availableFilter}
               onChange={(event) => setAvailableFilter(event.target.value)}
-              placeholder="Фильтр по ID"
+              placeholder={t('list.availableFilter')}
+              aria-invalid={availableFilterCheck.ok ? undefined : true}
+            />
+            {!availableFilterCheck.ok && <div className="filter__error">{formatError(availableFilterCheck.error)}</div>}
+          </div>
+          <div className="bulk-toolbar">
+            <BulkActionButton
+              label={t(debouncedAvailableFilter.trim() ? 'bulk.selectMatching' : 'bulk.selectAll')}
+              count={available.total}
+              disabled={bulkPending || available.loading || !availableFilterCheck.ok}
+              confirmText={(count) => t('bulk.confirmSelect', { count })}
+              onConfirm={() =>
+                handleBulk({ action: 'selectMatching', filter: debouncedAvailableFilter }, (affected) =>
+                  t('bulk.selected', { count: affected })
+                )
+              }
+            />
+            <RangeSelect
+              disabled={bulkPending}
+              selectionSize={selectedIds.length}
+              onSelect={(from, to) =>
+                handleBulk({ action: 'selectRange', from, to }, (affected) =>
+                  t('bulk.rangeSelected', { count: affected })
+                )
+              }
             />
+            <SortSelect value={availableSort} options={AVAILABLE_SORTS} onChange={setAvailableSort} />
           </div>
+          <GoToControl disabled={!availableFilterCheck.ok} onGoTo={handleAvailableGoTo} />
           <ScrollList
-            items={availableItems}
+            total={available.total}
+            getItem={available.getItem}
             renderItem={(id) => (
-              <div key={id} className="row">
-                <span>ID {id}</span>
-                <button type="button" onClick={() => handleMoveToSelection(id)}>
-                  Выбрать
-                </button>
+              <div
+                className={[
+                  'row',
+                  incomingId === id ? 'row--dragging' : '',
+                  highlightId === id ? 'row--highlight' : '',
+                ]
+                  .filter(Boolean)
+                  .join(' ')}
+                draggable={editingId !== id}
+                onDragStart={(event) => handleAvailableDragStart(event, id)}
+                onDragEnd={handleAvailableDragEnd}
+              >
+                {editingId === id ? (
+                  <ItemMetaEditor
+                    id={id}
+                    meta={itemMeta.get(id)}
+                    onSave={(meta) => handleSaveMeta(id, meta)}
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : (
+                  <>
+                    <ItemLabel id={id} meta={itemMeta.get(id)} />
+                    <div className="row__actions">
+                      <button
+                        type="button"
+                        className="ghost row__edit"
+                        onClick={() => setEditingId(id)}
+                        aria-label={t('row.editMeta', { id })}
+                        title={t('row.metaTitle')}
+                      >
+                        ✎
+                      </button>
+                      <button type="button" onClick={() => handleMoveToSelection(id)}>
+                        {t('row.select')}
+                      </button>
+                    </div>
+                  </>
+                )}
               </div>
             )}
-            hasMore={availableHasMore}
-            isLoading={availableLoading}
+            isLoading={available.loading}
             emptyPlaceholder={availablePlaceholder}
-            onLoadMore={handleAvailableLoadMore}
+            onRangeChange={available.ensureRange}
+            scrollTarget={availableScroll}
+            resetKey={`${scopeKey}:${debouncedAvailableFilter}:${availableSort}`}
           />
         </section>
 
-        <section className="panel">
+        <section
+          className={`panel ${incomingId !== null ? 'panel--drop' : ''}`}
+          onDragOver={(event) => {
+            if (incomingId !== null) event.preventDefault()
+          }}
+          onDrop={(event) => handleSelectedDrop(event, null)}
+        >
           <div className="panel__header">
-            <h2>Выбранные элементы</h2>
+            <h2>{t('list.selected')}</h2>
           </div>
           <div className="filter">
             <input
               type="search"
               value={selectedFilter}
               onChange={(event) => setSelectedFilter(event.target.value)}
-              placeholder="Фильтр по выбранным ID"
+              placeholder={t('list.selectedFilter')}
+              aria-invalid={selectedFilterCheck.ok ? undefined : true}
             />
+            {!selectedFilterCheck.ok && <div className="filter__error">{formatError(selectedFilterCheck.error)}</div>}
           </div>
-          <ScrollList
-            items={selectedItems}
-            renderItem={(id) => (
-              <div
-                key={id}
-                className={`row row--selected ${draggingId === id ? 'row--dragging' : ''}`}
-                draggable
-                onDragStart={(event) => handleDragStart(event, id)}
-                onDragOver={(event) => handleDragOver(event, id)}
-                onDragEnd={handleDragEnd}
-              >
-                <span>ID {id}</span>
-                <div className="row__actions">
-                  <button type="button" className="ghost" onClick={() => handleRemoveFromSelection(id)}>
-                    Удалить
-                  </button>
-                </div>
-              </div>
+          <div className="bulk-toolbar">
+            <button
+              type="button"
+              className="ghost"
+              disabled={historyPending || history.undo === 0}
+              onClick={() => handleHistoryStep('undo')}
+              title="Ctrl+Z"
+            >
+              {t('history.undo')}
+            </button>
+            <button
+              type="button"
+              className="ghost"
+              disabled={historyPending || history.redo === 0}
+              onClick={() => handleHistoryStep('redo')}
+              title="Ctrl+Shift+Z"
+            >
+              {t('history.redo')}
+            </button>
+            {debouncedSelectedFilter.trim() && (
+              <BulkActionButton
+                label={t('bulk.removeMatching')}
+                count={selectedMatches}
+                disabled={bulkPending || !selectedFilterCheck.ok}
+                confirmText={(count) => t('bulk.confirmRemove', { count })}
+                onConfirm={() =>
+                  handleBulk({ action: 'removeMatching', filter: debouncedSelectedFilter }, (affected) =>
+                    t('bulk.removed', { count: affected })
+                  )
+                }
+              />
             )}
-            hasMore={selectedHasMore}
-            isLoading={selectionLoading || selectedListLoading}
+            <BulkActionButton
+              label={t('bulk.clear')}
+              count={selectedIds.length}
+              disabled={bulkPending}
+              confirmText={(count) => t('bulk.confirmClear', { count })}
+              onConfirm={() => handleBulk({ action: 'clear' }, () => t('bulk.cleared'))}
+            />
+          </div>
+          <div className="bulk-toolbar">
+            <SortSelect value={selectedSort} options={SELECTED_SORTS} onChange={setSelectedSort} />
+            <button
+              type="button"
+              className="ghost"
+              disabled={bulkPending || selectedIds.length < 2}
+              onClick={() => handleBulk({ action: 'sortById', direction: 'asc' }, () => t('reorder.done'))}
+            >
+              {t('reorder.byId')}
+            </button>
+            <button
+              type="button"
+              className="ghost"
+              disabled={bulkPending || selectedIds.length < 2}
+              onClick={() => handleBulk({ action: 'reverse' }, () => t('reorder.done'))}
+            >
+              {t('reorder.reverse')}
+            </button>
+            <button
+              type="button"
+              className="ghost"
+              disabled={bulkPending || selectedIds.length < 2}
+              onClick={() => handleBulk({ action: 'shuffle' }, () => t('reorder.done'))}
+            >
+              {t('reorder.shuffle')}
+            </button>
+          </div>
+          <GroupToolbar groups={groups} scope={activeScope} onScopeChange={setGroupScope} onCreate={handleCreateGroup} />
+          {markedIds.size > 0 && (
+            <div className="bulk-toolbar" aria-label={t('marked.toolbar')}>
+              <span className="bulk-toolbar__label">{t('marked.count', { count: markedIds.size })}</span>
+              {manualOrder && (
+                <>
+                  <button
+                    type="button"
+                    className="ghost"
+                    onClick={() => handleMoveBlock('top', markedIds)}
+                    title="Alt+Home"
+                  >
+                    {t('marked.top')}
+                  </button>
+                  <button type="button" className="ghost" onClick={() => handleMoveBlock('up', markedIds)} title="Alt+↑">
+                    {t('marked.up')}
+                  </button>
+                  <button
+                    type="button"
+                    className="ghost"
+                    onClick={() => handleMoveBlock('down', markedIds)}
+                    title="Alt+↓"
+                  >
+                    {t('marked.down')}
+                  </button>
+                  <button
+                    type="button"
+                    className="ghost"
+                    onClick={() => handleMoveBlock('bottom', markedIds)}
+                    title="Alt+End"
+                  >
+                    {t('marked.bottom')}
+                  </button>
+                </>
+              )}
+              {groups.length > 0 && (
+                <label className="sort-select">
+                  <span>{t('groups.moveTo')}</span>
+                  <select
+                    value=""
+                    onChange={(event) =>
+                      handleMoveToGroup(event.target.value === 'none' ? null : Number(event.target.value), markedIds)
+                    }
+                  >
+                    <option value="" disabled>
+                      {t('groups.choose')}
+                    </option>
+                    <option value="none">{t('groups.ungrouped')}</option>
+                    {groups.map((group) => (
+                      <option key={group.id} value={group.id}>
+                        {group.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <button type="button" className="ghost" onClick={() => setMarkedIds(new Set())}>
+                {t('marked.clear')}
+              </button>
+            </div>
+          )}
+          <GoToControl disabled={selectionLoading} onGoTo={handleSelectedGoTo} />
+          <ScrollList<SelectedRow>
+            total={selectedRows.length}
+            getItem={(index) => selectedRows[index]}
+            renderItem={(row) => (typeof row === 'number' ? renderSelectedRow(row) : renderGroupHeader(row))}
+            getItemKey={getSelectedRowKey}
+            isLoading={selectionLoading}
             emptyPlaceholder={selectedPlaceholder}
-            onLoadMore={handleSelectedLoadMore}
+            scrollTarget={selectedScroll}
+            resetKey={`${scopeKey}:${debouncedSelectedFilter}`}
+            label={t('list.selectedHint')}
+            multiselectable
           />
         </section>
       </main>
+      <div className="visually-hidden" aria-live="polite">
+        {announcement}
+      </div>
     </div>
   )
 }
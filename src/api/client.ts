@@ -1,72 +1,596 @@
+import type { ErrorInfo } from '../../shared/errors.js'
+import { decodeIdRanges, ID_ENCODING_HEADER, ID_RANGES_ENCODING, type IdRanges } from '../../shared/idRanges.js'
+import type { ItemMeta } from '../../shared/itemMeta.js'
+import type { SelectionGroup } from '../../shared/selectionGroups.js'
+import { applySelectionOps, type SelectionOp } from '../../shared/selectionOps.js'
+import { AppError, ApiError, NetworkError, readErrorInfo } from './errors'
+import { claimOutbox, writeOutbox } from './outbox'
+import { AddQueue, BatchQueryQueue, SelectionOpsQueue, type SelectionOpsResponse } from './queues'
+
+export { AppError, ApiError, NetworkError } from './errors'
+export { isAbortError } from './queues'
+export type { SelectionSyncResult } from './queues'
+export type { AppErrorCode } from './errors'
+export type { ErrorInfo, ItemMeta, SelectionGroup, SelectionOp }
+
+export type SelectionHistory = { undo: number; redo: number }
+
+export type GroupSummary = { id: number | null; name: string | null; total: number }
+
+export type StatsBucket = { from: number; to: number; count: number }
+
+export type SelectionStats = {
+  base: number
+  custom: number
+  min: number | null
+  max: number | null
+  matching: number
+  bucketSize: number
+  buckets: StatsBucket[]
+}
+
 export type QueryResult = {
   items: number[]
   total: number
+  error?: ErrorInfo
+  version?: number
+  history?: SelectionHistory
+  position?: number | null
+  nextCursor?: string | null
+  meta?: Record<string, ItemMeta>
+  groups?: GroupSummary[]
+  groupOf?: Record<string, number>
+  stats?: SelectionStats
 }
 
+type EncodedQueryResult = Omit<QueryResult, 'items'> & { items: IdRanges }
+
+export type AvailableSort = 'asc' | 'desc' | 'addedFirst'
+export type SelectedSort = 'manual' | 'asc' | 'desc'
+
+export const AVAILABLE_SORTS: readonly AvailableSort[] = ['asc', 'desc', 'addedFirst']
+export const SELECTED_SORTS: readonly SelectedSort[] = ['manual', 'asc', 'desc']
+
 export type QueryRequest = {
   key: string
-  type: 'available' | 'selected' | 'selectionFull'
+  type: 'available' | 'selected' | 'selectionFull' | 'position' | 'stats'
   filter?: string
   offset?: number
   limit?: number
+  cursor?: string
+  sort?: AvailableSort | SelectedSort
+  list?: 'available' | 'selected'
+  id?: number
+  bucketSize?: number
+  collection?: string
+}
+
+export type WorkspaceSummary = {
+  id: string
+  selected: number
+  added: number
+}
+
+export type CollectionSummary = {
+  id: string
+  baseMax: number
 }
 
 const API_BASE_URL = (import.meta.env.VITE_API_URL as string | undefined) ?? 'http://localhost:3001'
+const WORKSPACE_STORAGE_KEY = 'workspace'
+const COLLECTION_STORAGE_KEY = 'collection'
+const API_KEY_STORAGE_KEY = 'apiKey'
+const WORKSPACE_PATTERN = /^[\p{L}\p{N}_-]{1,64}$/u
+
+export const DEFAULT_WORKSPACE = 'default'
+export const DEFAULT_COLLECTION = 'default'
+
+export const CLIENT_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+const readStoredName = (storageKey: string, fallback: string) => {
+  try {
+    const stored = localStorage.getItem(storageKey)
+    return stored && WORKSPACE_PATTERN.test(stored) ? stored : fallback
+  } catch {
+    return fallback
+  }
+}
+
+let currentWorkspace = readStoredName(WORKSPACE_STORAGE_KEY, DEFAULT_WORKSPACE)
+let currentCollection = readStoredName(COLLECTION_STORAGE_KEY, DEFAULT_COLLECTION)
 
-async function postJson<T>(path: string, body: unknown): Promise<T> {
+export const isValidWorkspaceName = (value: string) => WORKSPACE_PATTERN.test(value)
+
+export function getWorkspace() {
+  return currentWorkspace
+}
+
+export function setWorkspace(workspace: string) {
+  if (!isValidWorkspaceName(workspace)) {
+    throw new AppError('INVALID_WORKSPACE')
+  }
+  currentWorkspace = workspace
+  try {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, workspace)
+  } catch {
+    // The choice still applies to this tab when storage is unavailable.
+  }
+}
+
+export function getCollection() {
+  return currentCollection
+}
+
+export function setCollection(collection: string) {
+  if (!isValidWorkspaceName(collection)) {
+    throw new AppError('INVALID_COLLECTION')
+  }
+  currentCollection = collection
+  try {
+    localStorage.setItem(COLLECTION_STORAGE_KEY, collection)
+  } catch {
+    // The choice still applies to this tab when storage is unavailable.
+  }
+}
+
+type Scope = { workspace: string; collection: string }
+
+const getScope = (): Scope => ({ workspace: currentWorkspace, collection: currentCollection })
+
+export const getScopeKey = (workspace: string, collection: string) =>
+  collection === DEFAULT_COLLECTION ? workspace : `${collection}/${workspace}`
+
+const readStoredApiKey = () => {
+  try {
+    return localStorage.getItem(API_KEY_STORAGE_KEY) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+let currentApiKey = readStoredApiKey()
+
+export function getApiKey() {
+  return currentApiKey
+}
+
+export function setApiKey(key: string) {
+  currentApiKey = key.trim()
+  try {
+    if (currentApiKey) localStorage.setItem(API_KEY_STORAGE_KEY, currentApiKey)
+    else localStorage.removeItem(API_KEY_STORAGE_KEY)
+  } catch {
+    // The key still applies to this tab when storage is unavailable.
+  }
+}
+
+const withApiKey = (params: URLSearchParams) => {
+  if (currentApiKey) params.set('access_token', currentApiKey)
+  return params
+}
+
+const UNAVAILABLE_STATUSES = new Set([429, 502, 503, 504])
+
+const isRetryableError = (error: unknown) =>
+  error instanceof NetworkError || (error instanceof ApiError && UNAVAILABLE_STATUSES.has(error.status))
+
+async function requestJson<T>(path: string, init: RequestInit, { workspace, collection }: Scope): Promise<T> {
   let response: Response
   try {
     response = await fetch(`${API_BASE_URL}${path}`, {
-      method: 'POST',
+      ...init,
       headers: {
         'Content-Type': 'application/json',
+        'X-Workspace': workspace,
+        'X-Collection': collection,
+        'X-Client-Id': CLIENT_ID,
+        [ID_ENCODING_HEADER]: ID_RANGES_ENCODING,
+        ...(currentApiKey ? { Authorization: `Bearer ${currentApiKey}` } : {}),
       },
-      body: JSON.stringify(body),
     })
   } catch (error) {
     const message = error instanceof Error && error.message ? error.message : ''
-    if (message.toLowerCase().includes('failed to fetch')) {
-      throw new Error('Сервер недоступен. Проверьте соединение и повторите попытку.')
-    }
-    throw new Error('Не удалось выполнить запрос. Попробуйте ещё раз позже.')
+    throw new NetworkError(message.toLowerCase().includes('failed to fetch') ? 'SERVER_UNAVAILABLE' : 'REQUEST_FAILED')
   }
 
+  if (response.status === 204) return undefined as T
   if (!response.ok) {
     const text = await response.text()
-    throw new Error(text || 'Ошибка сети')
+    let payload: unknown = null
+    try {
+      payload = JSON.parse(text)
+    } catch {
+      // Not a JSON error body, e.g. a proxy page: reported by status alone.
+    }
+    throw new ApiError(readErrorInfo(payload), response.status, payload)
   }
 
   return response.json()
 }
 
-export async function runQuery(request: QueryRequest): Promise<QueryResult> {
-  const payload = await postJson<{ results: Record<string, QueryResult> }>('/api/query', {
-    queries: [request],
+function postJson<T>(path: string, body: unknown, scope: Scope): Promise<T> {
+  return requestJson<T>(path, { method: 'POST', body: JSON.stringify(body) }, scope)
+}
+
+const readIds = (value: IdRanges | undefined) => decodeIdRanges(value ?? []) ?? []
+
+export type IdRejection = { id: number; reason: ErrorInfo }
+
+type AddBatchResponse = {
+  added: number[]
+  rejected: IdRejection[]
+}
+
+type WorkspaceQueues = {
+  query: BatchQueryQueue<QueryRequest, QueryResult>
+  add: AddQueue<AddBatchResponse>
+  selection: SelectionOpsQueue<SelectionOp>
+}
+
+const sendSelectionOps = async (
+  scope: Scope,
+  baseVersion: number,
+  groups: SelectionOp[][]
+): Promise<SelectionOpsResponse> => {
+  const body = { baseVersion, ops: groups.flat(), steps: groups.map((group) => group.length) }
+  try {
+    const result = await postJson<{ version: number }>('/api/selection/ops', body, scope)
+    return { status: 'ok', version: result.version }
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 409) {
+      const conflict = (error.payload as { conflict?: { version: number; selectedIds: IdRanges } } | null)?.conflict
+      if (conflict) {
+        return { status: 'conflict', version: conflict.version, selectedIds: readIds(conflict.selectedIds) }
+      }
+    }
+    throw error
+  }
+}
+
+const queuesByScope = new Map<string, WorkspaceQueues>()
+
+export type OutboxStatus = { pending: number; offline: boolean }
+
+type OutboxListener = (scopeKey: string, replayed: boolean) => void
+
+const EMPTY_OUTBOX_STATUS: OutboxStatus = { pending: 0, offline: false }
+const outboxStatuses = new Map<string, OutboxStatus>()
+const outboxListeners = new Set<OutboxListener>()
+const interruptedScopes = new Set<string>()
+
+const updateOutbox = (key: string) => {
+  const queues = queuesByScope.get(key)
+  if (!queues) return
+  const ops = queues.selection.backlog
+  const adds = queues.add.backlog
+  writeOutbox(key, { ops, adds })
+
+  const next = { pending: ops.length + adds.length, offline: queues.add.failing || queues.selection.failing }
+  if (next.offline) interruptedScopes.add(key)
+  const replayed = !next.offline && !next.pending && interruptedScopes.delete(key)
+  const previous = outboxStatuses.get(key) ?? EMPTY_OUTBOX_STATUS
+  if (previous.pending === next.pending && previous.offline === next.offline && !replayed) return
+  outboxStatuses.set(key, next)
+  outboxListeners.forEach((listener) => listener(key, replayed))
+}
+
+const getQueues = () => {
+  const scope = getScope()
+  const key = getScopeKey(scope.workspace, scope.collection)
+  let queues = queuesByScope.get(key)
+  if (!queues) {
+    const retry = { isRetryable: isRetryableError, onChange: () => updateOutbox(key) }
+    queues = {
+      query: new BatchQueryQueue<QueryRequest, QueryResult>(async (queries) => {
+        const payload = await postJson<{ results: Record<string, EncodedQueryResult> }>('/api/query', { queries }, scope)
+        const results: Record<string, QueryResult> = {}
+        for (const [key, result] of Object.entries(payload.results ?? {})) {
+          results[key] = { ...result, items: readIds(result.items) }
+        }
+        return results
+      }),
+      add: new AddQueue<AddBatchResponse>(
+        (ids) => postJson<AddBatchResponse>('/api/items/batch', { ids }, scope),
+        10_000,
+        retry
+      ),
+      selection: new SelectionOpsQueue<SelectionOp>(
+        (baseVersion, groups) => sendSelectionOps(scope, baseVersion, groups),
+        (ids, ops) => applySelectionOps(ids, ops).ids,
+        1000,
+        retry
+      ),
+    }
+    queuesByScope.set(key, queues)
+
+    const { add, selection } = queues
+    claimOutbox<SelectionOp>(key).then((saved) => {
+      if (saved.ops.length || saved.adds.length) interruptedScopes.add(key)
+      selection.restore(saved.ops)
+      saved.adds.forEach((id) => add.enqueue(id).catch(() => {}))
+    })
+  }
+  return queues
+}
+
+window.addEventListener('online', () => {
+  queuesByScope.forEach((queues) => {
+    queues.add.retryNow()
+    queues.selection.retryNow()
   })
-  const result = payload.results?.[request.key]
-  if (!result) {
-    throw new Error('Сервер не вернул результат для запроса')
+})
+
+export function getOutboxStatus(scopeKey: string) {
+  return outboxStatuses.get(scopeKey) ?? EMPTY_OUTBOX_STATUS
+}
+
+export function subscribeToOutbox(listener: OutboxListener) {
+  outboxListeners.add(listener)
+  return () => {
+    outboxListeners.delete(listener)
+  }
+}
+
+export async function fetchWorkspaces(): Promise<WorkspaceSummary[]> {
+  const payload = await requestJson<{ workspaces: WorkspaceSummary[] }>(
+    '/api/workspaces',
+    { method: 'GET' },
+    getScope()
+  )
+  return payload.workspaces ?? []
+}
+
+export async function fetchCollections(): Promise<CollectionSummary[]> {
+  const payload = await requestJson<{ collections: CollectionSummary[] }>(
+    '/api/collections',
+    { method: 'GET' },
+    getScope()
+  )
+  return payload.collections ?? []
+}
+
+export async function createCollection(id: string, baseMax: number) {
+  const payload = await postJson<{ collection: CollectionSummary }>('/api/collections', { id, baseMax }, getScope())
+  return payload.collection
+}
+
+export async function runQuery(request: QueryRequest, signal?: AbortSignal): Promise<QueryResult> {
+  const result = await getQueues().query.enqueue(request, signal)
+  if (result.error) {
+    throw new AppError(result.error.code, result.error.params)
   }
   return result
 }
 
-export type AddResult = { id: number; success: boolean; message: string }
+export async function findPosition(
+  list: 'available' | 'selected',
+  filter: string,
+  id: number,
+  sort?: AvailableSort | SelectedSort
+) {
+  const result = await runQuery({
+    key: `position:${list}:${filter}:${sort ?? ''}:${id}`,
+    type: 'position',
+    list,
+    filter,
+    id,
+    sort,
+  })
+  return result.position ?? null
+}
+
+export async function fetchSelectionStats(filter: string, signal?: AbortSignal) {
+  const { total, stats } = await runQuery({ key: `stats:${filter}`, type: 'stats', filter }, signal)
+  return stats ? { ...stats, total } : null
+}
+
+export type BulkCommand =
+  | { action: 'selectMatching'; filter: string }
+  | { action: 'removeMatching'; filter: string }
+  | { action: 'selectRange'; from: number; to: number }
+  | { action: 'clear' }
+  | { action: 'sortById'; direction: 'asc' | 'desc' }
+  | { action: 'reverse' }
+  | { action: 'shuffle' }
+
+export type BulkResult = { affected: number; selected: number; version: number; history: SelectionHistory }
+
+export async function runBulkSelection(command: BulkCommand, options: { dryRun?: boolean } = {}) {
+  const scope = getScope()
+  const queues = getQueues()
+  await queues.selection.flush()
+  return postJson<BulkResult>('/api/selection/bulk', { command, dryRun: options.dryRun === true }, scope)
+}
+
+export type TransferTarget = 'selection' | 'added'
+export type TransferFormat = 'csv' | 'json' | 'text'
+
+export type ImportRequest = {
+  target: TransferTarget
+  format: TransferFormat
+  content: string
+  mode?: 'replace' | 'append'
+}
+
+export type ImportRejection = { row: number; value: string; reason: ErrorInfo }
+
+export type ImportResult = {
+  rows: number
+  imported: number
+  added: number[]
+  rejected: ImportRejection[]
+  selected: number
+  version: number
+  history: SelectionHistory
+}
+
+export function getExportUrl(target: TransferTarget, format: TransferFormat) {
+  const params = withApiKey(
+    new URLSearchParams({ workspace: currentWorkspace, collection: currentCollection, target, format })
+  )
+  return `${API_BASE_URL}/api/export?${params}`
+}
+
+export async function importItems(request: ImportRequest) {
+  const scope = getScope()
+  await getQueues().selection.flush()
+  return postJson<ImportResult>('/api/import', request, scope)
+}
+
+export type AddResult = { added: number[]; rejected: IdRejection[] }
 
-export async function enqueueAddition(id: number): Promise<AddResult> {
-  if (!Number.isInteger(id) || id <= 0) {
-    throw new Error('ID должен быть положительным целым числом')
+export async function enqueueAdditions(ids: number[]): Promise<AddResult> {
+  if (!ids.length || !ids.every((id) => Number.isInteger(id) && id > 0)) {
+    throw new AppError('INVALID_ID')
+  }
+  const queue = getQueues().add
+  const responses = new Set(await Promise.all(ids.map((id) => queue.enqueue(id))))
+  const requested = new Set(ids)
+  const added = new Set<number>()
+  const rejected = new Map<number, ErrorInfo>()
+  for (const response of responses) {
+    response.added?.forEach((id) => {
+      if (requested.has(id)) added.add(id)
+    })
+    response.rejected?.forEach((item) => {
+      const id = Number(item.id)
+      if (requested.has(id) && !added.has(id)) rejected.set(id, item.reason)
+    })
   }
-  const result = await postJson<{
-    added: number[]
-    rejected: Array<{ id: number; reason: string }>
-  }>('/api/items/batch', { ids: [id] })
-  if (result.added?.includes(id)) {
-    return { id, success: true, message: `ID ${id} успешно добавлен` }
+  return { added: Array.from(added), rejected: Array.from(rejected, ([id, reason]) => ({ id, reason })) }
+}
+
+export function previewAdditions(ids: number[]) {
+  return postJson<AddBatchResponse>('/api/items/batch', { ids, dryRun: true }, getScope())
+}
+
+export type DeleteResult = {
+  removed: number[]
+  rejected: IdRejection[]
+  selected: number
+  version: number
+  history: SelectionHistory
+}
+
+export async function deleteItems(ids: number[]) {
+  const scope = getScope()
+  await getQueues().selection.flush()
+  return postJson<DeleteResult>('/api/items/delete', { ids }, scope)
+}
+
+export async function loadSelection(signal?: AbortSignal) {
+  const queues = getQueues()
+  await queues.selection.flush()
+  const result = await runQuery({ key: 'selectionFull', type: 'selectionFull' }, signal)
+  queues.selection.reset(result.version ?? 0, result.items)
+  return {
+    items: result.items,
+    version: result.version ?? 0,
+    history: result.history ?? { undo: 0, redo: 0 },
+    meta: result.meta ?? {},
+    groups: (result.groups ?? []).flatMap(({ id, name }) => (id === null ? [] : [{ id, name: name ?? '' }])),
+    groupOf: new Map(Object.entries(result.groupOf ?? {}).map(([id, group]) => [Number(id), group])),
   }
-  const reason = result.rejected?.find((item) => Number(item.id) === id)?.reason
-  return { id, success: false, message: reason ?? 'ID не был добавлен' }
 }
 
-export async function persistSelection(ids: number[]) {
-  await postJson('/api/selection', { selectedIds: [...ids] })
+export type LoadedSelection = Awaited<ReturnType<typeof loadSelection>>
+
+export async function updateItemMeta(id: number, meta: ItemMeta) {
+  const scope = getScope()
+  const result = await postJson<{ id: number; meta: ItemMeta | null }>('/api/items/meta', { id, ...meta }, scope)
+  return result.meta
+}
+
+export type HistoryStepResult = { changed: boolean; version: number; selected: number; history: SelectionHistory }
+
+async function stepSelectionHistory(direction: 'undo' | 'redo') {
+  const scope = getScope()
+  await getQueues().selection.flush()
+  return postJson<HistoryStepResult>(`/api/selection/${direction}`, {}, scope)
+}
+
+export function undoSelection() {
+  return stepSelectionHistory('undo')
+}
+
+export function redoSelection() {
+  return stepSelectionHistory('redo')
+}
+
+export async function createGroup(name: string) {
+  const payload = await postJson<{ group: SelectionGroup }>('/api/groups', { name }, getScope())
+  return payload.group
+}
+
+export async function renameGroup(id: number, name: string) {
+  const body = JSON.stringify({ name })
+  const payload = await requestJson<{ group: SelectionGroup }>(`/api/groups/${id}`, { method: 'PUT', body }, getScope())
+  return payload.group
+}
+
+export async function deleteGroup(id: number) {
+  const scope = getScope()
+  await getQueues().selection.flush()
+  return requestJson<void>(`/api/groups/${id}`, { method: 'DELETE' }, scope)
+}
+
+export type PresetSummary = { name: string; count: number; savedAt: string }
+
+export type PresetRestoreResult = {
+  skipped: number
+  selected: number
+  version: number
+  history: SelectionHistory
+}
+
+export type SelectionDiff = {
+  added: number[]
+  removed: number[]
+  moved: { id: number; from: number; to: number }[]
+  counts: { added: number; removed: number; moved: number; unchanged: number }
+}
+
+const getPresetPath = (name: string) => `/api/presets/${encodeURIComponent(name)}`
+
+export async function fetchPresets() {
+  const payload = await requestJson<{ presets: PresetSummary[] }>('/api/presets', { method: 'GET' }, getScope())
+  return payload.presets ?? []
+}
+
+export async function savePreset(name: string) {
+  const scope = getScope()
+  await getQueues().selection.flush()
+  const payload = await requestJson<{ preset: PresetSummary }>(getPresetPath(name), { method: 'PUT' }, scope)
+  return payload.preset
+}
+
+export function deletePreset(name: string) {
+  return requestJson<void>(getPresetPath(name), { method: 'DELETE' }, getScope())
+}
+
+export async function restorePreset(name: string) {
+  const scope = getScope()
+  await getQueues().selection.flush()
+  return postJson<PresetRestoreResult>(`${getPresetPath(name)}/restore`, {}, scope)
+}
+
+export async function diffPresets(from: string | null, to: string | null) {
+  const scope = getScope()
+  await getQueues().selection.flush()
+  const params = new URLSearchParams()
+  if (from !== null) params.set('from', from)
+  if (to !== null) params.set('to', to)
+  return requestJson<SelectionDiff>(`/api/presets/diff?${params}`, { method: 'GET' }, scope)
+}
+
+export function getEventsUrl(workspace: string, collection: string) {
+  return `${API_BASE_URL}/api/events?${withApiKey(new URLSearchParams({ workspace, collection }))}`
+}
+
+export function getSelectionVersion() {
+  return getQueues().selection.version
+}
+
+export function submitSelectionOps(ops: SelectionOp[]) {
+  return getQueues().selection.enqueue(ops)
 }
@@ -0,0 +1,44 @@
+import type { ErrorCode, ErrorInfo, ErrorParams } from '../../shared/errors.js'
+
+export type ClientErrorCode = 'SERVER_UNAVAILABLE' | 'REQUEST_FAILED' | 'HTTP_ERROR' | 'MISSING_RESULT'
+
+export type AppErrorCode = ErrorCode | ClientErrorCode
+
+export class AppError extends Error {
+  readonly code: AppErrorCode
+  readonly params: ErrorParams
+
+  constructor(code: AppErrorCode, params: ErrorParams = {}) {
+    super(code)
+    this.name = 'AppError'
+    this.code = code
+    this.params = params
+  }
+}
+
+export class ApiError extends AppError {
+  readonly status: number
+  readonly payload: unknown
+
+  constructor(info: ErrorInfo | null, status: number, payload: unknown) {
+    super(info?.code ?? 'HTTP_ERROR', info?.params ?? { status })
+    this.name = 'ApiError'
+    this.status = status
+    this.payload = payload
+  }
+}
+
+export class NetworkError extends AppError {
+  constructor(code: 'SERVER_UNAVAILABLE' | 'REQUEST_FAILED') {
+    super(code)
+    this.name = 'NetworkError'
+  }
+}
+
+const isErrorInfo = (value: unknown): value is ErrorInfo =>
+  typeof (value as { code?: unknown } | null)?.code === 'string'
+
+export const readErrorInfo = (payload: unknown) => {
+  const error = (payload as { error?: unknown } | null)?.error
+  return isErrorInfo(error) ? error : null
+}
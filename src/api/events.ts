@@ -0,0 +1,92 @@
+import { getEventsUrl, type ItemMeta, type SelectionGroup, type SelectionHistory } from './client'
+
+export type ConnectionStatus = 'connecting' | 'open' | 'reconnecting'
+
+export type SelectionEvent = {
+  version: number
+  selected: number
+  history: SelectionHistory
+  origin: string | null
+}
+
+export type MetaEvent = { id: number; meta: ItemMeta | null; origin: string | null }
+
+export type GroupsEvent = { version: number; groups: SelectionGroup[]; origin: string | null }
+
+export type ServerEventHandlers = {
+  onReady: (event: { version: number; added: number }, reconnected: boolean) => void
+  onSelectionChanged: (event: SelectionEvent) => void
+  onOrderChanged: (event: SelectionEvent) => void
+  onItemsAdded: (event: { ids: number[]; added: number }) => void
+  onItemsRemoved: (event: { ids: number[]; added: number; origin: string | null }) => void
+  onMetaChanged: (event: MetaEvent) => void
+  onGroupsChanged: (event: GroupsEvent) => void
+  onCollectionChanged: (event: { baseMax: number; version: number; added: number }) => void
+  onCollectionDeleted: (event: { id: string }) => void
+  onStatusChange: (status: ConnectionStatus) => void
+}
+
+const MAX_RECONNECT_DELAY = 30_000
+
+const parseData = <T>(event: Event): T | null => {
+  try {
+    return JSON.parse((event as MessageEvent<string>).data) as T
+  } catch {
+    return null
+  }
+}
+
+export function subscribeToEvents(workspace: string, collection: string, handlers: ServerEventHandlers) {
+  let source: EventSource | null = null
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let attempts = 0
+  let connectedOnce = false
+  let closed = false
+
+  const listen = <T>(type: string, handler: (data: T) => void) => {
+    source?.addEventListener(type, (event) => {
+      const data = parseData<T>(event)
+      if (data) handler(data)
+    })
+  }
+
+  const connect = () => {
+    handlers.onStatusChange(connectedOnce ? 'reconnecting' : 'connecting')
+    source = new EventSource(getEventsUrl(workspace, collection))
+    listen<{ version: number; added: number }>('ready', (data) => {
+      attempts = 0
+      handlers.onStatusChange('open')
+      handlers.onReady(data, connectedOnce)
+      connectedOnce = true
+    })
+    listen<SelectionEvent>('selection-changed', handlers.onSelectionChanged)
+    listen<SelectionEvent>('order-changed', handlers.onOrderChanged)
+    listen<{ ids: number[]; added: number }>('items-added', handlers.onItemsAdded)
+    listen<{ ids: number[]; added: number; origin: string | null }>('items-removed', handlers.onItemsRemoved)
+    listen<MetaEvent>('meta-changed', handlers.onMetaChanged)
+    listen<GroupsEvent>('groups-changed', handlers.onGroupsChanged)
+    listen<{ baseMax: number; version: number; added: number }>('collection-changed', handlers.onCollectionChanged)
+    listen<{ id: string }>('collection-deleted', handlers.onCollectionDeleted)
+    source.onerror = () => {
+      if (closed || !source) return
+      if (source.readyState !== EventSource.CLOSED) {
+        handlers.onStatusChange('reconnecting')
+        return
+      }
+      source = null
+      handlers.onStatusChange('reconnecting')
+      const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY)
+      attempts += 1
+      retryTimer = setTimeout(connect, delay)
+    }
+  }
+
+  connect()
+
+  return () => {
+    closed = true
+    if (retryTimer) clearTimeout(retryTimer)
+    source?.close()
+    source = null
+  }
+}
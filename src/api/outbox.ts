@@ -0,0 +1,104 @@
+const OUTBOX_STORAGE_PREFIX = 'outbox:'
+const TAB_STORAGE_KEY = 'outbox-tab'
+const TAB_LOCK_PREFIX = 'outbox-tab:'
+
+export type Outbox<TOp> = {
+  ops: TOp[][]
+  adds: number[]
+}
+
+const storageKey = (workspace: string, tab: string) => `${OUTBOX_STORAGE_PREFIX}${workspace}:${tab}`
+
+const createTabId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+const readStoredTabId = () => {
+  try {
+    return sessionStorage.getItem(TAB_STORAGE_KEY)
+  } catch {
+    return null
+  }
+}
+
+const holdTabLock = (tab: string) =>
+  new Promise<boolean>((resolve) => {
+    navigator.locks
+      .request(`${TAB_LOCK_PREFIX}${tab}`, { ifAvailable: true }, (lock) => {
+        resolve(lock !== null)
+        return lock ? new Promise<never>(() => {}) : undefined
+      })
+      .catch(() => resolve(true))
+  })
+
+// A duplicated tab inherits the ID from `sessionStorage`, finds its lock taken and picks a new one.
+const tabIdReady = (async () => {
+  let tab = readStoredTabId() ?? createTabId()
+  if ('locks' in navigator) {
+    while (!(await holdTabLock(tab))) tab = createTabId()
+  }
+  try {
+    sessionStorage.setItem(TAB_STORAGE_KEY, tab)
+  } catch {
+    // A reload then starts with a new ID and claims the old entry like that of a closed tab.
+  }
+  return tab
+})()
+
+const readEntry = <TOp>(key: string): Outbox<TOp> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) ?? 'null') as Partial<Outbox<TOp>> | null
+    return {
+      ops: Array.isArray(parsed?.ops) ? parsed.ops.filter((group) => Array.isArray(group) && group.length) : [],
+      adds: Array.isArray(parsed?.adds) ? parsed.adds.filter((id) => Number.isSafeInteger(id) && id > 0) : [],
+    }
+  } catch {
+    return { ops: [], adds: [] }
+  }
+}
+
+const findOtherEntries = (workspace: string, tab: string) => {
+  const entries: { key: string; owner: string }[] = []
+  try {
+    const legacyKey = `${OUTBOX_STORAGE_PREFIX}${workspace}`
+    for (let index = 0; index < localStorage.length; index += 1) {
+      const key = localStorage.key(index)
+      if (key === legacyKey) entries.push({ key, owner: '' })
+      else if (key?.startsWith(`${legacyKey}:`) && key !== storageKey(workspace, tab)) {
+        entries.push({ key, owner: key.slice(legacyKey.length + 1) })
+      }
+    }
+  } catch {
+    // Without storage there is nothing to claim.
+  }
+  return entries
+}
+
+// An entry of another tab is claimed under its lock, so it is never replayed while that tab is open.
+export async function claimOutbox<TOp>(workspace: string): Promise<Outbox<TOp>> {
+  const tab = await tabIdReady
+  const claimed = readEntry<TOp>(storageKey(workspace, tab))
+  if (!('locks' in navigator)) return claimed
+  for (const { key, owner } of findOtherEntries(workspace, tab)) {
+    await navigator.locks.request(`${TAB_LOCK_PREFIX}${owner}`, { ifAvailable: true }, (lock) => {
+      if (!lock) return
+      const entry = readEntry<TOp>(key)
+      claimed.ops.push(...entry.ops)
+      claimed.adds.push(...entry.adds)
+      localStorage.removeItem(key)
+    })
+  }
+  return claimed
+}
+
+export function writeOutbox<TOp>(workspace: string, outbox: Outbox<TOp>) {
+  tabIdReady.then((tab) => {
+    try {
+      if (outbox.ops.length || outbox.adds.length) {
+        localStorage.setItem(storageKey(workspace, tab), JSON.stringify(outbox))
+      } else {
+        localStorage.removeItem(storageKey(workspace, tab))
+      }
+    } catch {
+      // Without storage the changes are still retried while the tab stays open.
+    }
+  })
+}
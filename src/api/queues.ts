@@ -0,0 +1,386 @@
+import { AppError } from './errors'
+
+type Waiter<T> = {
+  resolve: (value: T) => void
+  reject: (reason: unknown) => void
+}
+
+type QueryWaiter<T> = Waiter<T> & {
+  signal?: AbortSignal
+  onAbort?: () => void
+}
+
+type PendingQuery<TRequest, TResult> = {
+  request: TRequest
+  waiters: Set<QueryWaiter<TResult>>
+}
+
+export const createAbortError = () => new DOMException('Request aborted', 'AbortError')
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError'
+
+export type RetryOptions = {
+  isRetryable?: (error: unknown) => boolean
+  onChange?: () => void
+}
+
+const RETRY_BASE_DELAY = 1000
+const RETRY_MAX_DELAY = 60_000
+
+class Backoff {
+  private readonly run: () => void
+  private attempts = 0
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(run: () => void) {
+    this.run = run
+  }
+
+  get failing() {
+    return this.attempts > 0
+  }
+
+  get waiting() {
+    return this.timer !== null
+  }
+
+  schedule() {
+    if (this.timer) return
+    const delay = Math.min(RETRY_BASE_DELAY * 2 ** this.attempts, RETRY_MAX_DELAY)
+    this.attempts += 1
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.run()
+    }, delay)
+  }
+
+  reset() {
+    this.attempts = 0
+    this.cancel()
+  }
+
+  retryNow() {
+    if (!this.timer) return
+    this.cancel()
+    this.run()
+  }
+
+  private cancel() {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+}
+
+export class BatchQueryQueue<TRequest extends { key: string }, TResult> {
+  private readonly send: (requests: TRequest[]) => Promise<Record<string, TResult | undefined>>
+  private readonly interval: number
+  private pending = new Map<string, PendingQuery<TRequest, TResult>>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(send: (requests: TRequest[]) => Promise<Record<string, TResult | undefined>>, interval = 1000) {
+    this.send = send
+    this.interval = interval
+  }
+
+  enqueue(request: TRequest, signal?: AbortSignal): Promise<TResult> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError())
+    }
+    return new Promise<TResult>((resolve, reject) => {
+      let entry = this.pending.get(request.key)
+      if (!entry) {
+        entry = { request, waiters: new Set() }
+        this.pending.set(request.key, entry)
+      }
+      const waiter: QueryWaiter<TResult> = { resolve, reject, signal }
+      const target = entry
+      if (signal) {
+        waiter.onAbort = () => {
+          target.waiters.delete(waiter)
+          if (!target.waiters.size && this.pending.get(request.key) === target) {
+            this.pending.delete(request.key)
+          }
+          reject(createAbortError())
+        }
+        signal.addEventListener('abort', waiter.onAbort, { once: true })
+      }
+      entry.waiters.add(waiter)
+      this.schedule()
+    })
+  }
+
+  private schedule() {
+    if (this.timer) return
+    this.timer = setTimeout(() => this.flush(), this.interval)
+  }
+
+  private async flush() {
+    this.timer = null
+    const batch = Array.from(this.pending.values())
+    this.pending = new Map()
+    if (!batch.length) return
+
+    const settle = (entry: PendingQuery<TRequest, TResult>, settleWaiter: (waiter: QueryWaiter<TResult>) => void) => {
+      for (const waiter of entry.waiters) {
+        if (waiter.signal && waiter.onAbort) {
+          waiter.signal.removeEventListener('abort', waiter.onAbort)
+        }
+        settleWaiter(waiter)
+      }
+      entry.waiters.clear()
+    }
+
+    try {
+      const results = await this.send(batch.map((entry) => entry.request))
+      for (const entry of batch) {
+        const result = results[entry.request.key]
+        if (result === undefined) {
+          settle(entry, (waiter) => waiter.reject(new AppError('MISSING_RESULT')))
+        } else {
+          settle(entry, (waiter) => waiter.resolve(result))
+        }
+      }
+    } catch (error) {
+      for (const entry of batch) {
+        settle(entry, (waiter) => waiter.reject(error))
+      }
+    }
+  }
+}
+
+type PendingAddition<T> = { promise: Promise<T>; waiter: Waiter<T> }
+
+export class AddQueue<TResult> {
+  private readonly send: (ids: number[]) => Promise<TResult>
+  private readonly interval: number
+  private readonly options: RetryOptions
+  private readonly backoff = new Backoff(() => this.flush())
+  private pending = new Map<number, PendingAddition<TResult>>()
+  private sending = new Map<number, PendingAddition<TResult>>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(send: (ids: number[]) => Promise<TResult>, interval = 10_000, options: RetryOptions = {}) {
+    this.send = send
+    this.interval = interval
+    this.options = options
+  }
+
+  get backlog(): number[] {
+    return Array.from(new Set([...this.sending.keys(), ...this.pending.keys()]))
+  }
+
+  get failing() {
+    return this.backoff.failing
+  }
+
+  retryNow() {
+    this.backoff.retryNow()
+  }
+
+  enqueue(id: number): Promise<TResult> {
+    const existing = this.pending.get(id) ?? this.sending.get(id)
+    if (existing) return existing.promise
+
+    let waiter!: Waiter<TResult>
+    const promise = new Promise<TResult>((resolve, reject) => {
+      waiter = { resolve, reject }
+    })
+    this.pending.set(id, { promise, waiter })
+    if (!this.timer && !this.backoff.waiting) {
+      this.timer = setTimeout(() => this.flush(), this.interval)
+    }
+    this.options.onChange?.()
+    return promise
+  }
+
+  private async flush() {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+    if (this.sending.size) return
+    const batch = this.pending
+    this.pending = new Map()
+    if (!batch.size) return
+    this.sending = batch
+
+    try {
+      const result = await this.send(Array.from(batch.keys()))
+      this.backoff.reset()
+      batch.forEach(({ waiter }) => waiter.resolve(result))
+    } catch (error) {
+      if (this.options.isRetryable?.(error)) {
+        this.pending = new Map([...batch, ...this.pending])
+        this.backoff.schedule()
+      } else {
+        batch.forEach(({ waiter }) => waiter.reject(error))
+      }
+    } finally {
+      this.sending = new Map()
+      this.options.onChange?.()
+    }
+    if (this.pending.size && !this.timer && !this.backoff.waiting) {
+      this.timer = setTimeout(() => this.flush(), this.interval)
+    }
+  }
+}
+
+export type SelectionOpsResponse =
+  | { status: 'ok'; version: number }
+  | { status: 'conflict'; version: number; selectedIds: number[] }
+
+export type SelectionSyncResult = {
+  version: number
+  selection: number[]
+  rebased: boolean
+  dropped: boolean
+}
+
+const MAX_REBASE_ATTEMPTS = 3
+
+type QueuedOps<TOp> = { ops: TOp[]; waiters: Waiter<SelectionSyncResult>[] }
+
+type SendOutcome =
+  | { status: 'ok'; rebased: boolean }
+  | { status: 'dropped' }
+  | { status: 'retry' }
+  | { status: 'failed'; error: unknown }
+
+export class SelectionOpsQueue<TOp> {
+  private readonly send: (baseVersion: number, groups: TOp[][]) => Promise<SelectionOpsResponse>
+  private readonly apply: (ids: number[], ops: TOp[]) => number[]
+  private readonly interval: number
+  private readonly options: RetryOptions
+  private readonly backoff = new Backoff(() => this.flush())
+  private confirmed: { version: number; ids: number[] } = { version: 0, ids: [] }
+  private pending: QueuedOps<TOp>[] = []
+  private sending: QueuedOps<TOp>[] = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private inFlight: Promise<void> = Promise.resolve()
+
+  constructor(
+    send: (baseVersion: number, groups: TOp[][]) => Promise<SelectionOpsResponse>,
+    apply: (ids: number[], ops: TOp[]) => number[],
+    interval = 1000,
+    options: RetryOptions = {}
+  ) {
+    this.send = send
+    this.apply = apply
+    this.interval = interval
+    this.options = options
+  }
+
+  get version() {
+    return this.confirmed.version
+  }
+
+  get backlog(): TOp[][] {
+    return [...this.sending, ...this.pending].map((entry) => entry.ops).filter((ops) => ops.length)
+  }
+
+  get failing() {
+    return this.backoff.failing
+  }
+
+  reset(version: number, ids: number[]) {
+    this.confirmed = { version, ids }
+  }
+
+  restore(groups: TOp[][]) {
+    if (!groups.length) return
+    this.pending = [...groups.map((ops) => ({ ops, waiters: [] })), ...this.pending]
+    this.schedule()
+    this.options.onChange?.()
+  }
+
+  enqueue(ops: TOp[]): Promise<SelectionSyncResult> {
+    return new Promise<SelectionSyncResult>((resolve, reject) => {
+      this.pending.push({ ops, waiters: [{ resolve, reject }] })
+      this.schedule()
+      this.options.onChange?.()
+    })
+  }
+
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.inFlight = this.inFlight.then(() => this.sendPending())
+    return this.inFlight
+  }
+
+  retryNow() {
+    this.backoff.retryNow()
+  }
+
+  private schedule() {
+    if (this.timer || this.backoff.waiting) return
+    this.timer = setTimeout(() => this.flush(), this.interval)
+  }
+
+  private async sendPending() {
+    const batch = this.pending
+    this.pending = []
+    if (!batch.length) return
+    this.sending = batch
+
+    try {
+      const outcome = await this.sendBatch(batch)
+      if (outcome.status !== 'failed' || batch.length === 1) {
+        this.settle(batch, outcome)
+        return
+      }
+      for (const [index, entry] of batch.entries()) {
+        const single = await this.sendBatch([entry])
+        if (single.status === 'retry') {
+          this.settle(batch.slice(index), single)
+          return
+        }
+        this.settle([entry], single)
+      }
+    } finally {
+      this.sending = []
+      this.options.onChange?.()
+    }
+  }
+
+  private async sendBatch(batch: QueuedOps<TOp>[]): Promise<SendOutcome> {
+    const groups = batch.map((entry) => entry.ops).filter((ops) => ops.length)
+    if (!groups.length) return { status: 'ok', rebased: false }
+    for (let attempt = 0; attempt < MAX_REBASE_ATTEMPTS; attempt += 1) {
+      let response: SelectionOpsResponse
+      try {
+        response = await this.send(this.confirmed.version, groups)
+      } catch (error) {
+        return this.options.isRetryable?.(error) ? { status: 'retry' } : { status: 'failed', error }
+      }
+      this.backoff.reset()
+      if (response.status === 'ok') {
+        this.confirmed = { version: response.version, ids: this.apply(this.confirmed.ids, groups.flat()) }
+        return { status: 'ok', rebased: attempt > 0 }
+      }
+      this.confirmed = { version: response.version, ids: response.selectedIds }
+    }
+    return { status: 'dropped' }
+  }
+
+  private settle(batch: QueuedOps<TOp>[], outcome: SendOutcome) {
+    const waiters = batch.flatMap((entry) => entry.waiters)
+    if (outcome.status === 'retry') {
+      // Back to the front of the queue: later operations were made on top of these.
+      this.pending = [...batch, ...this.pending]
+      this.backoff.schedule()
+      return
+    }
+    if (outcome.status === 'failed') {
+      waiters.forEach((waiter) => waiter.reject(outcome.error))
+      return
+    }
+    const result = {
+      version: this.confirmed.version,
+      selection: this.apply(this.confirmed.ids, this.pending.flatMap((entry) => entry.ops)),
+      rebased: outcome.status === 'dropped' || outcome.rebased,
+      dropped: outcome.status === 'dropped',
+    }
+    waiters.forEach((waiter) => waiter.resolve(result))
+  }
+}
@@ -0,0 +1,44 @@
+import { useState, type FormEvent } from 'react'
+import { useI18n } from '../hooks/useI18n'
+
+type ApiKeyControlProps = {
+  value: string
+  onChange: (key: string) => void
+}
+
+export function ApiKeyControl({ value, onChange }: ApiKeyControlProps) {
+  const { t } = useI18n()
+  const [draft, setDraft] = useState('')
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const key = draft.trim()
+    if (!key) return
+    setDraft('')
+    onChange(key)
+  }
+
+  return (
+    <details className="api-key">
+      <summary>{t(value ? 'apiKey.set' : 'apiKey.label')}</summary>
+      <form onSubmit={handleSubmit}>
+        <input
+          type="password"
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder={t('apiKey.placeholder')}
+          aria-label={t('apiKey.label')}
+          autoComplete="off"
+        />
+        <button type="submit" className="ghost" disabled={!draft.trim()}>
+          {t('common.save')}
+        </button>
+        {value && (
+          <button type="button" className="ghost" onClick={() => onChange('')}>
+            {t('apiKey.clear')}
+          </button>
+        )}
+      </form>
+    </details>
+  )
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react'
+import { useI18n } from '../hooks/useI18n'
+
+const CONFIRM_THRESHOLD = 1000
+
+type BulkActionButtonProps = {
+  label: string
+  count: number
+  disabled?: boolean
+  confirmText: (count: number) => string
+  onConfirm: () => void
+}
+
+export function BulkActionButton({ label, count, disabled, confirmText, onConfirm }: BulkActionButtonProps) {
+  const { t } = useI18n()
+  const [confirming, setConfirming] = useState(false)
+  const isDisabled = disabled || count <= 0
+
+  if (confirming && !isDisabled) {
+    return (
+      <div className="bulk-confirm" role="alertdialog" aria-label={confirmText(count)}>
+        <span>{confirmText(count)}</span>
+        <button
+          type="button"
+          onClick={() => {
+            setConfirming(false)
+            onConfirm()
+          }}
+        >
+          {t('common.confirm')}
+        </button>
+        <button type="button" className="ghost" onClick={() => setConfirming(false)}>
+          {t('common.cancel')}
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <button
+      type="button"
+      className="ghost"
+      disabled={isDisabled}
+      onClick={() => {
+        if (count >= CONFIRM_THRESHOLD) {
+          setConfirming(true)
+          return
+        }
+        onConfirm()
+      }}
+    >
+      {t('common.countLabel', { label, count })}
+    </button>
+  )
+}
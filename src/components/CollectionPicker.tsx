@@ -0,0 +1,102 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { createCollection, fetchCollections, isValidWorkspaceName, type CollectionSummary } from '../api/client'
+import { useI18n } from '../hooks/useI18n'
+
+type CollectionPickerProps = {
+  value: string
+  onChange: (collection: string) => void
+}
+
+const DEFAULT_NEW_BASE_MAX = 1000
+
+export function CollectionPicker({ value, onChange }: CollectionPickerProps) {
+  const { t, describeError } = useI18n()
+  const [collections, setCollections] = useState<CollectionSummary[]>([])
+  const [draft, setDraft] = useState('')
+  const [baseMax, setBaseMax] = useState(String(DEFAULT_NEW_BASE_MAX))
+  const [error, setError] = useState<string | null>(null)
+  const [pending, setPending] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchCollections()
+      .then((list) => {
+        if (!cancelled) setCollections(list)
+      })
+      .catch(() => {
+        // The picker keeps working with the current collection when the list is unavailable.
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [value])
+
+  const options = collections.some((collection) => collection.id === value)
+    ? collections
+    : [{ id: value, baseMax: 0 }, ...collections]
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault()
+    const name = draft.trim()
+    const max = Number(baseMax)
+    if (!name) return
+    if (!isValidWorkspaceName(name)) {
+      setError(t('workspace.invalidName'))
+      return
+    }
+    if (!Number.isSafeInteger(max) || max < 0) {
+      setError(t('collection.invalidBaseMax'))
+      return
+    }
+    setPending(true)
+    try {
+      const created = await createCollection(name, max)
+      setCollections((prev) => [...prev, created])
+      setError(null)
+      setDraft('')
+      onChange(created.id)
+    } catch (createError) {
+      setError(describeError(createError, 'collection.createFailed'))
+    } finally {
+      setPending(false)
+    }
+  }
+
+  return (
+    <div className="workspace-switcher collection-picker">
+      <label>
+        <span>{t('collection.label')}</span>
+        <select value={value} onChange={(event) => onChange(event.target.value)}>
+          {options.map((collection) => (
+            <option key={collection.id} value={collection.id}>
+              {collection.baseMax ? t('collection.option', { id: collection.id, max: collection.baseMax }) : collection.id}
+            </option>
+          ))}
+        </select>
+      </label>
+      <form onSubmit={handleCreate}>
+        <input
+          type="text"
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder={t('collection.newPlaceholder')}
+          aria-invalid={error ? true : undefined}
+        />
+        <input
+          type="number"
+          className="collection-picker__base"
+          min={0}
+          step={1}
+          value={baseMax}
+          onChange={(event) => setBaseMax(event.target.value)}
+          aria-label={t('collection.baseMax')}
+          title={t('collection.baseMax')}
+        />
+        <button type="submit" className="ghost" disabled={pending}>
+          {t('collection.create')}
+        </button>
+      </form>
+      {error && <span className="workspace-switcher__error">{error}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import type { ConnectionStatus } from '../api/events'
+import { useI18n } from '../hooks/useI18n'
+import type { MessageKey } from '../i18n'
+
+const LABELS: Record<ConnectionStatus, MessageKey> = {
+  connecting: 'connection.connecting',
+  open: 'connection.open',
+  reconnecting: 'connection.reconnecting',
+}
+
+export function ConnectionIndicator({ status }: { status: ConnectionStatus }) {
+  const { t } = useI18n()
+  return (
+    <span className={`connection connection--${status}`} role="status">
+      <span className="connection__dot" aria-hidden />
+      {t(LABELS[status])}
+    </span>
+  )
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { previewAdditions, type ErrorInfo } from '../api/client'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { useI18n } from '../hooks/useI18n'
+import { parseIdList } from '../../shared/idList.js'
+import { BulkActionButton } from './BulkActionButton'
+
+type CustomIdsFormProps = {
+  onAdd: (ids: number[]) => Promise<boolean>
+  onDelete: (ids: number[]) => Promise<boolean>
+}
+
+type Preview = { key: string; added: number; rejected: number; reason?: ErrorInfo }
+
+export function CustomIdsForm({ onAdd, onDelete }: CustomIdsFormProps) {
+  const { t, formatError } = useI18n()
+  const [value, setValue] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  const parsed = parseIdList(value)
+  const debounced = useDebouncedValue(value.trim(), 400)
+  const previewKey = debounced && parseIdList(debounced).ok ? debounced : null
+
+  useEffect(() => {
+    if (previewKey === null) return
+    const list = parseIdList(previewKey)
+    if (!list.ok) return
+    let cancelled = false
+    previewAdditions(list.ids)
+      .then((result) => {
+        if (cancelled) return
+        setPreview({
+          key: previewKey,
+          added: result.added.length,
+          rejected: result.rejected.length,
+          reason: result.rejected[0]?.reason,
+        })
+      })
+      .catch(() => {
+        // The preview is only a hint; the add itself reports errors.
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [previewKey])
+
+  const clearIfUnchanged = (submitted: string) => setValue((current) => (current === submitted ? '' : current))
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!value.trim()) {
+      setError(t('add.empty'))
+      return
+    }
+    if (!parsed.ok) return
+    setError(null)
+    const submitted = value
+    if (await onAdd(parsed.ids)) clearIfUnchanged(submitted)
+  }
+
+  const handleDelete = async () => {
+    if (!parsed.ok) return
+    const submitted = value
+    setDeleting(true)
+    try {
+      if (await onDelete(parsed.ids)) clearIfUnchanged(submitted)
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  const currentPreview = preview && preview.key === value.trim() ? preview : null
+  let hint: string | null = null
+  if (!parsed.ok) hint = formatError(parsed.error)
+  else if (error) hint = error
+  else if (currentPreview?.rejected && currentPreview.reason) {
+    hint = t('add.previewRejected', {
+      count: currentPreview.added,
+      rejected: currentPreview.rejected,
+      reason: formatError(currentPreview.reason),
+    })
+  } else if (currentPreview) hint = t('add.preview', { count: currentPreview.added })
+
+  return (
+    <form className="add-form" onSubmit={handleSubmit}>
+      <input
+        type="text"
+        value={value}
+        onChange={(event) => {
+          setValue(event.target.value)
+          setError(null)
+        }}
+        placeholder={t('add.placeholder')}
+        aria-label={t('add.inputLabel')}
+        aria-invalid={parsed.ok ? undefined : true}
+      />
+      <button type="submit">{t('add.submit')}</button>
+      <BulkActionButton
+        label={t('delete.submit')}
+        count={parsed.ok ? parsed.ids.length : 0}
+        disabled={deleting}
+        confirmText={(count) => t('delete.confirm', { count })}
+        onConfirm={handleDelete}
+      />
+      {hint && (
+        <div className={parsed.ok && !error ? 'add-form__hint' : 'add-form__hint add-form__hint--error'} aria-live="polite">
+          {hint}
+        </div>
+      )}
+    </form>
+  )
+}
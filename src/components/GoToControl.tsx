@@ -0,0 +1,63 @@
+import { useState, type FormEvent } from 'react'
+import { useI18n } from '../hooks/useI18n'
+
+export type GoToMode = 'id' | 'position'
+
+type GoToControlProps = {
+  disabled?: boolean
+  onGoTo: (mode: GoToMode, value: number) => Promise<string | null>
+}
+
+const parseTarget = (value: string) => {
+  const trimmed = value.trim()
+  if (!/^\d+$/.test(trimmed)) return null
+  const parsed = Number(trimmed)
+  return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : null
+}
+
+export function GoToControl({ disabled, onGoTo }: GoToControlProps) {
+  const { t, formatError, describeError } = useI18n()
+  const [mode, setMode] = useState<GoToMode>('id')
+  const [value, setValue] = useState('')
+  const [pending, setPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    const target = parseTarget(value)
+    if (target === null) {
+      setError(mode === 'id' ? formatError({ code: 'INVALID_ID' }) : t('goTo.invalidPosition'))
+      return
+    }
+    setPending(true)
+    setError(null)
+    try {
+      setError(await onGoTo(mode, target))
+    } catch (reason) {
+      setError(describeError(reason, 'goTo.failed'))
+    } finally {
+      setPending(false)
+    }
+  }
+
+  return (
+    <form className="go-to" onSubmit={handleSubmit}>
+      <select value={mode} onChange={(event) => setMode(event.target.value as GoToMode)} aria-label={t('goTo.label')}>
+        <option value="id">{t('goTo.byId')}</option>
+        <option value="position">{t('goTo.byPosition')}</option>
+      </select>
+      <input
+        type="text"
+        inputMode="numeric"
+        value={value}
+        onChange={(event) => setValue(event.target.value)}
+        placeholder={t(mode === 'id' ? 'goTo.id' : 'goTo.position')}
+        aria-label={t(mode === 'id' ? 'goTo.idInput' : 'goTo.positionInput')}
+      />
+      <button type="submit" className="ghost" disabled={disabled || pending}>
+        {t('goTo.submit')}
+      </button>
+      {error && <span className="go-to__error">{error}</span>}
+    </form>
+  )
+}
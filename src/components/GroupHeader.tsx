@@ -0,0 +1,117 @@
+import { useState, type DragEvent, type FormEvent } from 'react'
+import { useI18n } from '../hooks/useI18n'
+import { MAX_GROUP_NAME_LENGTH } from '../../shared/selectionGroups.js'
+
+type GroupHeaderProps = {
+  group: number | null
+  name: string
+  count: number
+  total: number
+  collapsed: boolean
+  dropTarget: boolean
+  onToggle: () => void
+  onRename?: (name: string) => Promise<boolean>
+  onDelete?: () => void
+  onDragOver: (event: DragEvent<HTMLDivElement>) => void
+  onDrop: (event: DragEvent<HTMLDivElement>) => void
+}
+
+export function GroupHeader({
+  group,
+  name,
+  count,
+  total,
+  collapsed,
+  dropTarget,
+  onToggle,
+  onRename,
+  onDelete,
+  onDragOver,
+  onDrop,
+}: GroupHeaderProps) {
+  const { t } = useI18n()
+  const [draft, setDraft] = useState<string | null>(null)
+  const [confirming, setConfirming] = useState(false)
+
+  const handleRename = async (event: FormEvent) => {
+    event.preventDefault()
+    const next = draft?.trim()
+    if (!next || !onRename) return
+    if (next === name || (await onRename(next))) setDraft(null)
+  }
+
+  const className = ['row', 'group-header', dropTarget ? 'row--drop-target' : ''].filter(Boolean).join(' ')
+
+  if (draft !== null) {
+    return (
+      <div className={className} data-group={group ?? 'none'} onDragOver={onDragOver} onDrop={onDrop}>
+        <form className="group-header__rename" onSubmit={handleRename}>
+          <input
+            type="text"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Escape') setDraft(null)
+            }}
+            aria-label={t('groups.rename', { name })}
+            maxLength={MAX_GROUP_NAME_LENGTH}
+            autoFocus
+          />
+          <button type="submit" disabled={!draft.trim()}>
+            {t('common.save')}
+          </button>
+          <button type="button" className="ghost" onClick={() => setDraft(null)}>
+            {t('common.cancel')}
+          </button>
+        </form>
+      </div>
+    )
+  }
+
+  return (
+    <div className={className} data-group={group ?? 'none'} onDragOver={onDragOver} onDrop={onDrop}>
+      <button type="button" className="ghost group-header__toggle" aria-expanded={!collapsed} onClick={onToggle}>
+        <span aria-hidden="true">{collapsed ? '▸' : '▾'}</span>
+        <span className="group-header__name">{name}</span>
+        <span className="group-header__count">
+          {count === total ? t('groups.count', { count }) : t('groups.countFiltered', { count, total })}
+        </span>
+      </button>
+      {confirming && onDelete ? (
+        <div className="bulk-confirm" role="alertdialog">
+          <span>{t('groups.confirmDelete', { name })}</span>
+          <button
+            type="button"
+            onClick={() => {
+              setConfirming(false)
+              onDelete()
+            }}
+          >
+            {t('common.confirm')}
+          </button>
+          <button type="button" className="ghost" onClick={() => setConfirming(false)}>
+            {t('common.cancel')}
+          </button>
+        </div>
+      ) : (
+        onRename &&
+        onDelete && (
+          <div className="row__actions">
+            <button
+              type="button"
+              className="ghost row__edit"
+              onClick={() => setDraft(name)}
+              aria-label={t('groups.rename', { name })}
+              title={t('groups.renameTitle')}
+            >
+              ✎
+            </button>
+            <button type="button" className="ghost" onClick={() => setConfirming(true)}>
+              {t('groups.delete')}
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { useState, type FormEvent } from 'react'
+import type { SelectionGroup } from '../api/client'
+import { useI18n } from '../hooks/useI18n'
+import { MAX_GROUP_NAME_LENGTH } from '../../shared/selectionGroups.js'
+
+export type GroupScope = 'all' | number | null
+
+const UNGROUPED = 'none'
+
+const encodeScope = (scope: GroupScope) => (scope === null ? UNGROUPED : String(scope))
+
+const decodeScope = (value: string): GroupScope => {
+  if (value === 'all') return 'all'
+  return value === UNGROUPED ? null : Number(value)
+}
+
+type GroupToolbarProps = {
+  groups: SelectionGroup[]
+  scope: GroupScope
+  onScopeChange: (scope: GroupScope) => void
+  onCreate: (name: string) => Promise<boolean>
+}
+
+export function GroupToolbar({ groups, scope, onScopeChange, onCreate }: GroupToolbarProps) {
+  const { t } = useI18n()
+  const [draft, setDraft] = useState('')
+  const [pending, setPending] = useState(false)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    const name = draft.trim()
+    if (!name) return
+    setPending(true)
+    if (await onCreate(name)) setDraft('')
+    setPending(false)
+  }
+
+  return (
+    <div className="bulk-toolbar group-toolbar">
+      {groups.length > 0 && (
+        <label className="sort-select">
+          <span>{t('groups.scope')}</span>
+          <select value={encodeScope(scope)} onChange={(event) => onScopeChange(decodeScope(event.target.value))}>
+            <option value="all">{t('groups.all')}</option>
+            <option value={UNGROUPED}>{t('groups.ungrouped')}</option>
+            {groups.map((group) => (
+              <option key={group.id} value={group.id}>
+                {group.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <form className="group-toolbar__form" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder={t('groups.namePlaceholder')}
+          aria-label={t('groups.namePlaceholder')}
+          maxLength={MAX_GROUP_NAME_LENGTH}
+        />
+        <button type="submit" className="ghost" disabled={pending || !draft.trim()}>
+          {t('groups.create')}
+        </button>
+      </form>
+    </div>
+  )
+}
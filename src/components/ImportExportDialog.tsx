@@ -0,0 +1,194 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import {
+  getExportUrl,
+  importItems,
+  type ImportResult,
+  type TransferFormat,
+  type TransferTarget,
+} from '../api/client'
+import { useI18n } from '../hooks/useI18n'
+
+const REPORT_LIMIT = 100
+
+const FORMATS: TransferFormat[] = ['csv', 'json', 'text']
+const TARGETS: TransferTarget[] = ['selection', 'added']
+
+const detectFormat = (fileName: string): TransferFormat => {
+  const lower = fileName.toLowerCase()
+  if (lower.endsWith('.csv')) return 'csv'
+  if (lower.endsWith('.json')) return 'json'
+  return 'text'
+}
+
+type ImportExportDialogProps = {
+  onClose: () => void
+  onImported: (result: ImportResult) => void
+}
+
+export function ImportExportDialog({ onClose, onImported }: ImportExportDialogProps) {
+  const { t, formatNumber, formatError, describeError } = useI18n()
+  const [exportTarget, setExportTarget] = useState<TransferTarget>('selection')
+  const [exportFormat, setExportFormat] = useState<TransferFormat>('csv')
+
+  const [importTarget, setImportTarget] = useState<TransferTarget>('selection')
+  const [importFormat, setImportFormat] = useState<TransferFormat>('csv')
+  const [mode, setMode] = useState<'replace' | 'append'>('append')
+  const [content, setContent] = useState('')
+  const [pending, setPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [report, setReport] = useState<ImportResult | null>(null)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setImportFormat(detectFormat(file.name))
+    setContent(await file.text())
+  }
+
+  const handleImport = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!content.trim()) {
+      setError(t('transfer.empty'))
+      return
+    }
+    setPending(true)
+    setError(null)
+    try {
+      const result = await importItems({ target: importTarget, format: importFormat, content, mode })
+      setReport(result)
+      onImported(result)
+    } catch (reason) {
+      setError(describeError(reason, 'transfer.failed'))
+    } finally {
+      setPending(false)
+    }
+  }
+
+  return (
+    <div className="dialog-backdrop" onClick={onClose}>
+      <div
+        className="dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('transfer.title')}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="dialog__header">
+          <h2>{t('transfer.title')}</h2>
+          <button type="button" className="ghost" onClick={onClose} aria-label={t('common.close')}>
+            ×
+          </button>
+        </div>
+
+        <section className="dialog__section">
+          <h3>{t('transfer.export')}</h3>
+          <div className="dialog__row">
+            <select value={exportTarget} onChange={(event) => setExportTarget(event.target.value as TransferTarget)}>
+              {TARGETS.map((value) => (
+                <option key={value} value={value}>
+                  {t(`transfer.target.${value}`)}
+                </option>
+              ))}
+            </select>
+            <select value={exportFormat} onChange={(event) => setExportFormat(event.target.value as TransferFormat)}>
+              {FORMATS.map((value) => (
+                <option key={value} value={value}>
+                  {t(`transfer.format.${value}`)}
+                </option>
+              ))}
+            </select>
+            <a className="button-link" href={getExportUrl(exportTarget, exportFormat)} download>
+              {t('transfer.download')}
+            </a>
+          </div>
+        </section>
+
+        <form className="dialog__section" onSubmit={handleImport}>
+          <h3>{t('transfer.import')}</h3>
+          <div className="dialog__row">
+            <select value={importTarget} onChange={(event) => setImportTarget(event.target.value as TransferTarget)}>
+              {TARGETS.map((value) => (
+                <option key={value} value={value}>
+                  {t(`transfer.target.${value}`)}
+                </option>
+              ))}
+            </select>
+            <select value={importFormat} onChange={(event) => setImportFormat(event.target.value as TransferFormat)}>
+              {FORMATS.map((value) => (
+                <option key={value} value={value}>
+                  {t(`transfer.format.${value}`)}
+                </option>
+              ))}
+            </select>
+            {importTarget === 'selection' && (
+              <select value={mode} onChange={(event) => setMode(event.target.value as 'replace' | 'append')}>
+                <option value="append">{t('transfer.mode.append')}</option>
+                <option value="replace">{t('transfer.mode.replace')}</option>
+              </select>
+            )}
+          </div>
+          <input
+            type="file"
+            accept=".csv,.json,.txt,text/csv,application/json,text/plain"
+            onChange={(event) => handleFile(event.target.files?.[0])}
+          />
+          <textarea
+            value={content}
+            onChange={(event) => setContent(event.target.value)}
+            placeholder={t('transfer.paste')}
+            rows={6}
+          />
+          <div className="dialog__row">
+            <button type="submit" disabled={pending}>
+              {t(pending ? 'transfer.pending' : 'transfer.submit')}
+            </button>
+            {error && <span className="dialog__error">{error}</span>}
+          </div>
+        </form>
+
+        {report && (
+          <section className="dialog__section import-report" aria-live="polite">
+            <p>
+              {t('transfer.report', {
+                rows: report.rows,
+                imported: report.imported,
+                added: report.added.length,
+                rejected: report.rejected.length,
+              })}
+            </p>
+            {report.rejected.length > 0 && (
+              <table>
+                <thead>
+                  <tr>
+                    <th>{t('transfer.row')}</th>
+                    <th>{t('transfer.value')}</th>
+                    <th>{t('transfer.reason')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rejected.slice(0, REPORT_LIMIT).map((item) => (
+                    <tr key={`${item.row}:${item.value}`}>
+                      <td>{formatNumber(item.row)}</td>
+                      <td>{item.value}</td>
+                      <td>{formatError(item.reason)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {report.rejected.length > REPORT_LIMIT && (
+              <p className="hint">{t('transfer.reportLimit', { count: REPORT_LIMIT })}</p>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
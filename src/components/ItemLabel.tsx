@@ -0,0 +1,25 @@
+import type { ItemMeta } from '../../shared/itemMeta.js'
+import { useI18n } from '../hooks/useI18n'
+
+type ItemLabelProps = {
+  id: number
+  meta?: ItemMeta
+}
+
+export function ItemLabel({ id, meta }: ItemLabelProps) {
+  const { t } = useI18n()
+  return (
+    <span className="item-label">
+      <span className="item-label__title">
+        {meta?.tag && <span className={`tag-dot tag-dot--${meta.tag}`} role="img" aria-label={t(`tag.${meta.tag}`)} />}
+        <span>{t('row.id', { id })}</span>
+        {meta?.label && <span className="item-label__text">{meta.label}</span>}
+      </span>
+      {meta?.note && (
+        <span className="item-label__note" title={meta.note}>
+          {meta.note}
+        </span>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,70 @@
+import { useState, type FormEvent, type KeyboardEvent } from 'react'
+import { MAX_LABEL_LENGTH, MAX_NOTE_LENGTH, TAG_COLORS, type ItemMeta, type TagColor } from '../../shared/itemMeta.js'
+import { useI18n } from '../hooks/useI18n'
+
+type ItemMetaEditorProps = {
+  id: number
+  meta?: ItemMeta
+  onSave: (meta: ItemMeta) => Promise<void>
+  onCancel: () => void
+}
+
+export function ItemMetaEditor({ id, meta, onSave, onCancel }: ItemMetaEditorProps) {
+  const { t } = useI18n()
+  const [label, setLabel] = useState(meta?.label ?? '')
+  const [tag, setTag] = useState<TagColor | ''>(meta?.tag ?? '')
+  const [note, setNote] = useState(meta?.note ?? '')
+  const [pending, setPending] = useState(false)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    setPending(true)
+    try {
+      await onSave({ label, tag: tag || undefined, note })
+    } finally {
+      setPending(false)
+    }
+  }
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key !== 'Escape') return
+    event.stopPropagation()
+    onCancel()
+  }
+
+  return (
+    <form className="meta-editor" onSubmit={handleSubmit} onKeyDown={handleKeyDown}>
+      <input
+        type="text"
+        value={label}
+        onChange={(event) => setLabel(event.target.value)}
+        maxLength={MAX_LABEL_LENGTH}
+        placeholder={t('meta.label')}
+        aria-label={t('meta.labelInput', { id })}
+        autoFocus
+      />
+      <select value={tag} onChange={(event) => setTag(event.target.value as TagColor | '')} aria-label={t('meta.color')}>
+        <option value="">{t('meta.noColor')}</option>
+        {TAG_COLORS.map((color) => (
+          <option key={color.value} value={color.value}>
+            {t(`tag.${color.value}`)}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={note}
+        onChange={(event) => setNote(event.target.value)}
+        maxLength={MAX_NOTE_LENGTH}
+        placeholder={t('meta.note')}
+        aria-label={t('meta.noteInput', { id })}
+      />
+      <button type="submit" disabled={pending}>
+        {t('common.save')}
+      </button>
+      <button type="button" className="ghost" onClick={onCancel} aria-label={t('meta.cancel')}>
+        ×
+      </button>
+    </form>
+  )
+}
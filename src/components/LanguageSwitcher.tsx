@@ -0,0 +1,18 @@
+import { useI18n } from '../hooks/useI18n'
+import { LOCALES, setLocale, type Locale } from '../i18n'
+
+export function LanguageSwitcher() {
+  const { locale, t } = useI18n()
+  return (
+    <label className="language-switcher">
+      <span>{t('app.language')}</span>
+      <select value={locale} onChange={(event) => setLocale(event.target.value as Locale)}>
+        {LOCALES.map((item) => (
+          <option key={item.value} value={item.value} lang={item.value}>
+            {item.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,12 @@
+import type { OutboxStatus } from '../api/client'
+import { useI18n } from '../hooks/useI18n'
+
+export function OutboxBadge({ status }: { status: OutboxStatus }) {
+  const { t } = useI18n()
+  if (!status.offline) return null
+  return (
+    <span className="outbox-badge" role="status">
+      {t('outbox.offline', { count: status.pending })}
+    </span>
+  )
+}
@@ -0,0 +1,255 @@
+import { useCallback, useEffect, useState, type FormEvent } from 'react'
+import {
+  deletePreset,
+  diffPresets,
+  fetchPresets,
+  restorePreset,
+  savePreset,
+  type PresetRestoreResult,
+  type PresetSummary,
+  type SelectionDiff,
+} from '../api/client'
+import { useI18n } from '../hooks/useI18n'
+
+const CURRENT = ''
+const MAX_NAME_LENGTH = 64
+
+type PresetDrawerProps = {
+  onClose: () => void
+  onRestored: (name: string, result: PresetRestoreResult) => void
+}
+
+export function PresetDrawer({ onClose, onRestored }: PresetDrawerProps) {
+  const { t, formatDate, describeError } = useI18n()
+  const [presets, setPresets] = useState<PresetSummary[]>([])
+  const [name, setName] = useState('')
+  const [pending, setPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null)
+  const [compareFrom, setCompareFrom] = useState(CURRENT)
+  const [compareTo, setCompareTo] = useState(CURRENT)
+  const [diff, setDiff] = useState<SelectionDiff | null>(null)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const loadPresets = useCallback(async () => {
+    try {
+      setPresets(await fetchPresets())
+    } catch (reason) {
+      setError(describeError(reason, 'presets.loadFailed'))
+    }
+  }, [describeError])
+
+  useEffect(() => {
+    let cancelled = false
+    fetchPresets()
+      .then((list) => {
+        if (!cancelled) setPresets(list)
+      })
+      .catch((reason) => {
+        if (!cancelled) setError(describeError(reason, 'presets.loadFailed'))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [describeError])
+
+  const run = async (action: () => Promise<void>) => {
+    setPending(true)
+    setError(null)
+    try {
+      await action()
+    } catch (reason) {
+      setError(describeError(reason, 'presets.failed'))
+    } finally {
+      setPending(false)
+    }
+  }
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault()
+    const trimmed = name.trim()
+    if (!trimmed) return
+    run(async () => {
+      await savePreset(trimmed)
+      setName('')
+      await loadPresets()
+    })
+  }
+
+  const handleRestore = (preset: string) =>
+    run(async () => {
+      onRestored(preset, await restorePreset(preset))
+    })
+
+  const handleDelete = (preset: string) =>
+    run(async () => {
+      setConfirmingDelete(null)
+      await deletePreset(preset)
+      if (compareFrom === preset) setCompareFrom(CURRENT)
+      if (compareTo === preset) setCompareTo(CURRENT)
+      setDiff(null)
+      await loadPresets()
+    })
+
+  const handleCompare = (from: string, to: string) =>
+    run(async () => {
+      setCompareFrom(from)
+      setCompareTo(to)
+      setDiff(await diffPresets(from === CURRENT ? null : from, to === CURRENT ? null : to))
+    })
+
+  const renderSideSelect = (value: string, onChange: (value: string) => void, label: string) => (
+    <label className="drawer__field">
+      <span>{label}</span>
+      <select value={value} onChange={(event) => onChange(event.target.value)}>
+        <option value={CURRENT}>{t('presets.current')}</option>
+        {presets.map((preset) => (
+          <option key={preset.name} value={preset.name}>
+            {preset.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+
+  return (
+    <div className="dialog-backdrop drawer-backdrop" onClick={onClose}>
+      <aside
+        className="drawer"
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('presets.title')}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="dialog__header">
+          <h2>{t('presets.title')}</h2>
+          <button type="button" className="ghost" onClick={onClose} aria-label={t('common.close')}>
+            ×
+          </button>
+        </div>
+
+        <form className="dialog__section dialog__row" onSubmit={handleSave}>
+          <input
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder={t('presets.namePlaceholder')}
+            aria-label={t('presets.namePlaceholder')}
+            maxLength={MAX_NAME_LENGTH}
+          />
+          <button type="submit" disabled={pending || !name.trim()}>
+            {t('presets.save')}
+          </button>
+        </form>
+        {error && <p className="dialog__error">{error}</p>}
+
+        <section className="dialog__section">
+          {presets.length === 0 && <p className="hint">{t('presets.empty')}</p>}
+          <ul className="preset-list">
+            {presets.map((preset) => (
+              <li key={preset.name} className="preset-list__item">
+                <div>
+                  <strong>{preset.name}</strong>
+                  <div className="preset-list__meta">
+                    {t('presets.count', { count: preset.count, date: formatDate(preset.savedAt) })}
+                  </div>
+                </div>
+                {confirmingDelete === preset.name ? (
+                  <div className="bulk-confirm" role="alertdialog">
+                    <span>{t('presets.confirmDelete', { name: preset.name })}</span>
+                    <button type="button" disabled={pending} onClick={() => handleDelete(preset.name)}>
+                      {t('common.confirm')}
+                    </button>
+                    <button type="button" className="ghost" onClick={() => setConfirmingDelete(null)}>
+                      {t('common.cancel')}
+                    </button>
+                  </div>
+                ) : (
+                  <div className="dialog__row">
+                    <button type="button" disabled={pending} onClick={() => handleRestore(preset.name)}>
+                      {t('presets.restore')}
+                    </button>
+                    <button
+                      type="button"
+                      className="ghost"
+                      disabled={pending}
+                      onClick={() => handleCompare(preset.name, CURRENT)}
+                    >
+                      {t('presets.compareCurrent')}
+                    </button>
+                    <button type="button" className="ghost" onClick={() => setConfirmingDelete(preset.name)}>
+                      {t('presets.delete')}
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section className="dialog__section">
+          <h3>{t('presets.compare')}</h3>
+          <div className="dialog__row">
+            {renderSideSelect(compareFrom, setCompareFrom, t('presets.from'))}
+            {renderSideSelect(compareTo, setCompareTo, t('presets.to'))}
+            <button type="button" className="ghost" disabled={pending} onClick={() => handleCompare(compareFrom, compareTo)}>
+              {t('presets.compareSubmit')}
+            </button>
+          </div>
+          {diff && <DiffReport diff={diff} />}
+        </section>
+      </aside>
+    </div>
+  )
+}
+
+function DiffReport({ diff }: { diff: SelectionDiff }) {
+  const { t } = useI18n()
+  const { counts } = diff
+  if (!counts.added && !counts.removed && !counts.moved) {
+    return <p aria-live="polite">{t('presets.noDifference')}</p>
+  }
+  const groups = [
+    { key: 'added', title: t('presets.added'), total: counts.added, lines: diff.added.map((id) => t('row.id', { id })) },
+    {
+      key: 'removed',
+      title: t('presets.removed'),
+      total: counts.removed,
+      lines: diff.removed.map((id) => t('row.id', { id })),
+    },
+    {
+      key: 'moved',
+      title: t('presets.moved'),
+      total: counts.moved,
+      lines: diff.moved.map((move) => t('presets.move', { id: move.id, from: move.from + 1, to: move.to + 1 })),
+    },
+  ]
+  return (
+    <div className="preset-diff" aria-live="polite">
+      <p>{t('presets.diffSummary', counts)}</p>
+      {groups.map(
+        (group) =>
+          group.total > 0 && (
+            <details key={group.key} className="preset-diff__group" open={group.total <= 20}>
+              <summary>{t('common.countLabel', { label: group.title, count: group.total })}</summary>
+              <ul>
+                {group.lines.map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+              {group.lines.length < group.total && (
+                <p className="hint">{t('presets.diffLimit', { count: group.lines.length })}</p>
+              )}
+            </details>
+          )
+      )}
+    </div>
+  )
+}
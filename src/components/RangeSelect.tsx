@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react'
+import { isAbortError, runBulkSelection } from '../api/client'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { useI18n } from '../hooks/useI18n'
+import { BulkActionButton } from './BulkActionButton'
+
+type RangeSelectProps = {
+  disabled?: boolean
+  selectionSize: number
+  onSelect: (from: number, to: number) => void
+}
+
+const parseBound = (value: string) => {
+  const trimmed = value.trim()
+  if (!/^\d+$/.test(trimmed)) return null
+  const parsed = Number(trimmed)
+  return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : null
+}
+
+export function RangeSelect({ disabled, selectionSize, onSelect }: RangeSelectProps) {
+  const { t, formatError, describeError } = useI18n()
+  const [fromValue, setFromValue] = useState('')
+  const [toValue, setToValue] = useState('')
+  const [preview, setPreview] = useState<{ key: string; affected: number } | null>(null)
+  const [error, setError] = useState<unknown>(null)
+
+  const from = parseBound(useDebouncedValue(fromValue, 400))
+  const to = parseBound(useDebouncedValue(toValue, 400))
+  const rangeKey = from !== null && to !== null && from <= to ? `${from}-${to}:${selectionSize}` : null
+
+  useEffect(() => {
+    if (rangeKey === null || from === null || to === null) return
+    let cancelled = false
+    runBulkSelection({ action: 'selectRange', from, to }, { dryRun: true })
+      .then((result) => {
+        if (cancelled) return
+        setError(null)
+        setPreview({ key: rangeKey, affected: result.affected })
+      })
+      .catch((reason) => {
+        if (cancelled || isAbortError(reason)) return
+        setError(reason)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [from, to, rangeKey])
+
+  const count = preview && preview.key === rangeKey ? preview.affected : 0
+  const invalidOrder = from !== null && to !== null && from > to
+  const hasError = error !== null
+
+  return (
+    <div className="range-select">
+      <input
+        type="text"
+        inputMode="numeric"
+        value={fromValue}
+        onChange={(event) => setFromValue(event.target.value)}
+        placeholder={t('range.from')}
+        aria-label={t('range.fromLabel')}
+      />
+      <input
+        type="text"
+        inputMode="numeric"
+        value={toValue}
+        onChange={(event) => setToValue(event.target.value)}
+        placeholder={t('range.to')}
+        aria-label={t('range.toLabel')}
+      />
+      <BulkActionButton
+        label={t('range.select')}
+        count={count}
+        disabled={disabled || rangeKey === null}
+        confirmText={(value) => t('range.confirm', { count: value })}
+        onConfirm={() => {
+          if (from !== null && to !== null) onSelect(from, to)
+        }}
+      />
+      {(invalidOrder || hasError) && (
+        <span className="range-select__error">
+          {invalidOrder
+            ? formatError({ code: 'RANGE_REVERSED', params: { value: `${from}-${to}` } })
+            : describeError(error, 'range.countFailed')}
+        </span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import type { AvailableSort, SelectedSort } from '../api/client'
+import { useI18n } from '../hooks/useI18n'
+
+type SortMode = AvailableSort | SelectedSort
+
+type SortSelectProps<T extends SortMode> = {
+  value: T
+  options: readonly T[]
+  onChange: (sort: T) => void
+}
+
+export function SortSelect<T extends SortMode>({ value, options, onChange }: SortSelectProps<T>) {
+  const { t } = useI18n()
+  return (
+    <label className="sort-select">
+      <span>{t('sort.label')}</span>
+      <select value={value} onChange={(event) => onChange(event.target.value as T)}>
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {t(`sort.${option}`)}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react'
+import { fetchSelectionStats, type SelectionStats } from '../api/client'
+import { useI18n } from '../hooks/useI18n'
+
+type StatsPanelProps = {
+  filter: string
+  revision: number
+}
+
+export function StatsPanel({ filter, revision }: StatsPanelProps) {
+  const { t, formatNumber, describeError } = useI18n()
+  const [open, setOpen] = useState(false)
+  const [stats, setStats] = useState<(SelectionStats & { total: number }) | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    fetchSelectionStats(filter)
+      .then((result) => {
+        if (cancelled) return
+        setStats(result)
+        setError(null)
+      })
+      .catch((reason) => {
+        if (!cancelled) setError(describeError(reason, 'stats.loadFailed'))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [describeError, filter, open, revision])
+
+  const formatId = (value: number | null) => (value === null ? t('stats.none') : formatNumber(value))
+  const peak = stats ? Math.max(...stats.buckets.map((bucket) => bucket.count), 1) : 1
+
+  return (
+    <section className="stats-panel">
+      <button type="button" className="ghost stats-panel__toggle" aria-expanded={open} onClick={() => setOpen(!open)}>
+        <span aria-hidden="true">{open ? '▾' : '▸'}</span> {t('stats.title')}
+      </button>
+      {open && error && <p className="dialog__error">{error}</p>}
+      {open && stats && (
+        <div className="stats-panel__body">
+          <dl className="stats-panel__summary">
+            <div>
+              <dt>{t('stats.base')}</dt>
+              <dd>{formatNumber(stats.base)}</dd>
+            </div>
+            <div>
+              <dt>{t('stats.custom')}</dt>
+              <dd>{formatNumber(stats.custom)}</dd>
+            </div>
+            <div>
+              <dt>{t('stats.min')}</dt>
+              <dd>{formatId(stats.min)}</dd>
+            </div>
+            <div>
+              <dt>{t('stats.max')}</dt>
+              <dd>{formatId(stats.max)}</dd>
+            </div>
+            {filter.trim() && (
+              <div>
+                <dt>{t('stats.matching')}</dt>
+                <dd>{t('stats.matchingCount', { count: stats.matching, total: stats.total })}</dd>
+              </div>
+            )}
+          </dl>
+          {stats.buckets.length ? (
+            <figure className="stats-chart">
+              <div className="stats-chart__bars" role="img" aria-label={t('stats.chart', { size: stats.bucketSize })}>
+                {stats.buckets.map((bucket) => (
+                  <div
+                    key={bucket.from}
+                    className="stats-chart__bar"
+                    title={t('stats.bucket', { from: bucket.from, to: bucket.to, count: bucket.count })}
+                  >
+                    <span style={{ height: `${(bucket.count / peak) * 100}%` }} />
+                  </div>
+                ))}
+              </div>
+              <figcaption className="stats-chart__axis">
+                <span>{formatNumber(stats.buckets[0].from)}</span>
+                <span>{t('stats.chart', { size: stats.bucketSize })}</span>
+                <span>{formatNumber(stats.buckets[stats.buckets.length - 1].to)}</span>
+              </figcaption>
+            </figure>
+          ) : (
+            <p className="hint">{t('stats.noBase')}</p>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,74 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { fetchWorkspaces, isValidWorkspaceName, type WorkspaceSummary } from '../api/client'
+import { useI18n } from '../hooks/useI18n'
+
+type WorkspaceSwitcherProps = {
+  value: string
+  onChange: (workspace: string) => void
+}
+
+export function WorkspaceSwitcher({ value, onChange }: WorkspaceSwitcherProps) {
+  const { t } = useI18n()
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([])
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchWorkspaces()
+      .then((list) => {
+        if (!cancelled) setWorkspaces(list)
+      })
+      .catch(() => {
+        // The switcher keeps working with the current workspace when the list is unavailable.
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [value])
+
+  const options = workspaces.some((workspace) => workspace.id === value)
+    ? workspaces
+    : [{ id: value, selected: 0, added: 0 }, ...workspaces]
+
+  const handleCreate = (event: FormEvent) => {
+    event.preventDefault()
+    const name = draft.trim()
+    if (!name) return
+    if (!isValidWorkspaceName(name)) {
+      setError(t('workspace.invalidName'))
+      return
+    }
+    setError(null)
+    setDraft('')
+    onChange(name)
+  }
+
+  return (
+    <div className="workspace-switcher">
+      <label>
+        <span>{t('workspace.label')}</span>
+        <select value={value} onChange={(event) => onChange(event.target.value)}>
+          {options.map((workspace) => (
+            <option key={workspace.id} value={workspace.id}>
+              {workspace.id}
+            </option>
+          ))}
+        </select>
+      </label>
+      <form onSubmit={handleCreate}>
+        <input
+          type="text"
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder={t('workspace.newPlaceholder')}
+          aria-invalid={error ? true : undefined}
+        />
+        <button type="submit" className="ghost">
+          {t('workspace.open')}
+        </button>
+      </form>
+      {error && <span className="workspace-switcher__error">{error}</span>}
+    </div>
+  )
+}
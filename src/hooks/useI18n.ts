@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react'
+import { getLocale, getTranslator, subscribeToLocale } from '../i18n'
+
+export function useI18n() {
+  return getTranslator(useSyncExternalStore(subscribeToLocale, getLocale))
+}
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { isAbortError } from '../api/client'
+
+export type PageRequest = { offset: number; limit: number; cursor?: string }
+
+export type PageFetcher = (
+  request: PageRequest,
+  signal: AbortSignal
+) => Promise<{ items: number[]; total?: number; nextCursor?: string | null }>
+
+type PagedState = {
+  key: string
+  total: number
+  pages: Map<number, number[]>
+  // Hidden until a later reload; their slots stay so that the rows after them keep their indexes.
+  removed: Map<number, number>
+  ready: boolean
+  error: unknown
+}
+
+type Session = {
+  key: string
+  controller: AbortController
+  requested: Set<number>
+  cursors: Map<number, string>
+  epoch: number
+}
+
+const createState = (key: string): PagedState => ({
+  key,
+  total: 0,
+  pages: new Map(),
+  removed: new Map(),
+  ready: false,
+  error: null,
+})
+
+export function usePagedIds(key: string, fetchPage: PageFetcher, pageSize: number, enabled = true) {
+  const [state, setState] = useState(() => createState(key))
+  if (state.key !== key) setState(createState(key))
+  const fetchRef = useRef(fetchPage)
+  const sessionRef = useRef<Session | null>(null)
+  const windowRef = useRef({ start: 0, end: pageSize })
+
+  useEffect(() => {
+    fetchRef.current = fetchPage
+  }, [fetchPage])
+
+  const loadPages = useCallback(
+    async (pageIndexes: number[]) => {
+      const session = sessionRef.current
+      if (!session || !pageIndexes.length) return
+      const epoch = session.epoch
+      pageIndexes.forEach((page) => session.requested.add(page))
+      try {
+        const results = await Promise.all(
+          pageIndexes.map((page) =>
+            fetchRef.current(
+              { offset: page * pageSize, limit: pageSize, cursor: session.cursors.get(page) },
+              session.controller.signal
+            )
+          )
+        )
+        if (sessionRef.current !== session) return
+        const current = session.epoch === epoch
+        if (current) {
+          results.forEach(({ nextCursor }, index) => {
+            if (nextCursor) session.cursors.set(pageIndexes[index] + 1, nextCursor)
+          })
+        }
+        setState((prev) => {
+          if (prev.key !== session.key) return prev
+          const pages = new Map(prev.pages)
+          if (current) results.forEach((result, index) => pages.set(pageIndexes[index], result.items))
+          const removed = current ? new Map([...prev.removed].filter(([, since]) => since >= epoch)) : prev.removed
+          return {
+            ...prev,
+            removed,
+            total: current ? (results[results.length - 1].total ?? 0) : prev.total,
+            pages,
+            ready: true,
+            error: null,
+          }
+        })
+      } catch (error) {
+        if (sessionRef.current !== session) return
+        pageIndexes.forEach((page) => session.requested.delete(page))
+        if (isAbortError(error)) return
+        setState((prev) => (prev.key === session.key ? { ...prev, ready: true, error } : prev))
+      }
+    },
+    [pageSize]
+  )
+
+  const getWindowPages = useCallback(() => {
+    const { start, end } = windowRef.current
+    const pages: number[] = []
+    for (let page = Math.floor(start / pageSize); page * pageSize < Math.max(end, start + 1); page += 1) {
+      pages.push(page)
+    }
+    return pages
+  }, [pageSize])
+
+  useEffect(() => {
+    const session: Session = {
+      key,
+      controller: new AbortController(),
+      requested: new Set(),
+      cursors: new Map(),
+      epoch: 0,
+    }
+    sessionRef.current = session
+    windowRef.current = { start: 0, end: pageSize }
+    if (enabled) loadPages([0])
+    return () => session.controller.abort()
+  }, [enabled, key, loadPages, pageSize])
+
+  const ensureRange = useCallback(
+    (start: number, end: number) => {
+      windowRef.current = { start, end }
+      const session = sessionRef.current
+      if (!enabled || !session) return
+      loadPages(getWindowPages().filter((page) => !session.requested.has(page)))
+    },
+    [enabled, getWindowPages, loadPages]
+  )
+
+  const reload = useCallback(() => {
+    const session = sessionRef.current
+    if (!enabled || !session) return
+    const visible = getWindowPages()
+    session.epoch += 1
+    session.requested = new Set(visible)
+    session.cursors.clear()
+    setState((prev) => {
+      const pages = new Map<number, number[]>()
+      visible.forEach((page) => {
+        const items = prev.pages.get(page)
+        if (items) pages.set(page, items)
+      })
+      return { ...prev, pages }
+    })
+    loadPages(visible)
+  }, [enabled, getWindowPages, loadPages])
+
+  const removeId = useCallback((id: number) => {
+    const session = sessionRef.current
+    if (!session) return
+    setState((prev) => ({ ...prev, removed: new Map(prev.removed).set(id, session.epoch) }))
+  }, [])
+
+  const getItem = useCallback(
+    (index: number) => {
+      const id = state.pages.get(Math.floor(index / pageSize))?.[index % pageSize]
+      return id === undefined || state.removed.has(id) ? undefined : id
+    },
+    [pageSize, state.pages, state.removed]
+  )
+
+  return {
+    total: state.total,
+    loading: enabled && !state.ready,
+    error: state.error,
+    getItem,
+    ensureRange,
+    reload,
+    removeId,
+  }
+}
@@ -0,0 +1,288 @@
+import type { Catalog } from './ru'
+
+export const en: Catalog = {
+  'common.loading': 'Loading...',
+  'common.confirm': 'Confirm',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.countLabel': '{label} ({count})',
+
+  'app.title': 'Item manager',
+  'app.language': 'Language',
+  'app.importExport': 'Import/export',
+  'app.presets': 'Saved selections',
+  'app.selectedCount': 'Selected: {count}',
+  'app.availableCount': 'Available: {count}',
+
+  'connection.connecting': 'Connecting…',
+  'connection.open': 'In sync',
+  'connection.reconnecting': 'Connection lost, reconnecting…',
+  'outbox.offline': 'Offline · unsaved changes: {count}',
+
+  'workspace.label': 'Workspace',
+  'workspace.newPlaceholder': 'New workspace',
+  'workspace.open': 'Open',
+  'workspace.invalidName': 'Letters, digits, “-” and “_”, up to 64 characters',
+  'workspace.switchFailed': 'Could not switch the workspace',
+
+  'collection.label': 'Collection',
+  'collection.option': '{id} (1…{max})',
+  'collection.newPlaceholder': 'New collection',
+  'collection.baseMax': 'Base IDs up to (0 for none)',
+  'collection.invalidBaseMax': 'The base ID limit must be a non-negative integer',
+  'collection.create': 'Create',
+  'collection.createFailed': 'Could not create the collection',
+  'collection.switchFailed': 'Could not switch the collection',
+  'collection.deleted': 'Collection “{id}” was deleted, the default collection is open',
+
+  'apiKey.label': 'Access key',
+  'apiKey.set': 'Access key set',
+  'apiKey.placeholder': 'API key',
+  'apiKey.clear': 'Remove key',
+
+  'list.available': 'All items',
+  'list.selected': 'Selected items',
+  'list.selectedHint': 'Selected items. Shift or Ctrl and click mark several, Alt and the arrow keys move them',
+  'list.availableFilter': 'Filter: 42, 42*, *00, =7, 100-200, #red, label',
+  'list.selectedFilter': 'Filter selected IDs by number, #colour or label',
+  'list.noMatches': 'No matches',
+  'list.emptySelection': 'Nothing selected',
+  'list.loadFailed': 'Could not load the items',
+
+  'row.id': 'ID {id}',
+  'row.editMeta': 'Edit the label of ID {id}',
+  'row.metaTitle': 'Label and note',
+  'row.drag': 'Drag to move',
+  'row.select': 'Select',
+  'row.remove': 'Remove',
+
+  'selection.loadFailed': 'Could not load the selected items',
+  'selection.saveFailed': 'Could not save the selection',
+  'selection.rebased': 'The selection was changed in another window, your changes were applied on top',
+  'selection.dropped': 'The selection was changed in another window, your latest changes were not applied',
+
+  'bulk.selectAll': 'Select all',
+  'bulk.selectMatching': 'Select matches',
+  'bulk.confirmSelect': 'Select {count} items?',
+  'bulk.selected': 'Items selected: {count}',
+  'bulk.rangeSelected': 'Items selected from the range: {count}',
+  'bulk.removeMatching': 'Remove matches',
+  'bulk.confirmRemove': 'Remove {count} items from the selection?',
+  'bulk.removed': 'Removed from the selection: {count}',
+  'bulk.clear': 'Clear selection',
+  'bulk.confirmClear': 'Clear the selection of {count} items?',
+  'bulk.cleared': 'Selection cleared',
+  'bulk.failed': 'Could not run the bulk operation',
+
+  'range.from': 'From',
+  'range.fromLabel': 'Range start',
+  'range.to': 'To',
+  'range.toLabel': 'Range end',
+  'range.select': 'Select range',
+  'range.confirm': 'Select {count} items from the range?',
+  'range.countFailed': 'Could not count the range',
+
+  'sort.label': 'Order',
+  'sort.asc': 'Ascending ID',
+  'sort.desc': 'Descending ID',
+  'sort.addedFirst': 'Added first',
+  'sort.manual': 'Manual',
+  'reorder.byId': 'Sort by ID',
+  'reorder.reverse': 'Reverse',
+  'reorder.shuffle': 'Shuffle',
+  'reorder.done': 'Selection order changed',
+
+  'history.undo': 'Undo',
+  'history.redo': 'Redo',
+  'history.undone': 'Action undone',
+  'history.redone': 'Action redone',
+  'history.failed': 'Could not change the selection history',
+
+  'marked.toolbar': 'Move marked items',
+  'marked.count': 'Marked: {count}',
+  'marked.top': 'To top',
+  'marked.up': 'Up',
+  'marked.down': 'Down',
+  'marked.bottom': 'To bottom',
+  'marked.clear': 'Unmark',
+
+  'announce.marked': 'Items marked: {count}',
+  'announce.unmarked': 'Marks cleared',
+  'announce.movedOne': 'ID {id} moved to position {position}',
+  'announce.movedMany': 'Items moved: {count}, new position {position}',
+  'announce.inserted': 'ID {id} added to the selection at position {position}',
+
+  'goTo.label': 'Go to',
+  'goTo.byId': 'To ID',
+  'goTo.byPosition': 'To position',
+  'goTo.id': 'ID',
+  'goTo.position': 'Position',
+  'goTo.idInput': 'ID to go to',
+  'goTo.positionInput': 'Position to go to',
+  'goTo.submit': 'Go',
+  'goTo.invalidPosition': 'The position must be a positive integer',
+  'goTo.outOfRange': 'The list has only {count} items',
+  'goTo.notFound': 'ID {id} is not in the list',
+  'goTo.failed': 'Could not find the item',
+
+  'meta.label': 'Label',
+  'meta.labelInput': 'Label of ID {id}',
+  'meta.color': 'Colour',
+  'meta.noColor': 'No colour',
+  'meta.note': 'Note',
+  'meta.noteInput': 'Note for ID {id}',
+  'meta.cancel': 'Discard changes',
+  'meta.saveFailed': 'Could not save the label',
+
+  'tag.red': 'Red',
+  'tag.orange': 'Orange',
+  'tag.yellow': 'Yellow',
+  'tag.green': 'Green',
+  'tag.blue': 'Blue',
+  'tag.purple': 'Purple',
+  'tag.gray': 'Grey',
+
+  'add.placeholder': 'ID, list or range',
+  'add.inputLabel': 'IDs to add: one value, a comma-separated list or a range like 1000001-1000500',
+  'add.submit': 'Add',
+  'add.empty': 'Enter an ID to add',
+  'add.preview': 'Will be added: {count}',
+  'add.previewRejected': 'Will be added: {count}, rejected: {rejected} ({reason})',
+  'add.queuedOne': 'ID {id} queued for adding',
+  'add.queuedMany': 'IDs queued for adding: {count}',
+  'add.addedOne': 'ID {id} added',
+  'add.notAdded': 'The ID was not added',
+  'add.added': 'IDs added: {count}',
+  'add.addedRejected': 'IDs added: {count}, rejected: {rejected} ({reason})',
+  'add.failed': 'Could not add the item',
+  'delete.submit': 'Delete',
+  'delete.confirm': 'Delete {count} IDs? This cannot be undone.',
+  'delete.done': 'IDs deleted: {count}',
+  'delete.doneRejected': 'IDs deleted: {count}, rejected: {rejected} ({reason})',
+  'delete.failed': 'Could not delete the IDs',
+
+  'transfer.title': 'Import and export',
+  'transfer.export': 'Export',
+  'transfer.import': 'Import',
+  'transfer.download': 'Download',
+  'transfer.format.csv': 'CSV',
+  'transfer.format.json': 'JSON',
+  'transfer.format.text': 'Text (one ID per line)',
+  'transfer.target.selection': 'Selected items',
+  'transfer.target.added': 'Added IDs',
+  'transfer.mode.append': 'Append to the selection',
+  'transfer.mode.replace': 'Replace the selection',
+  'transfer.paste': '…or paste a list of IDs',
+  'transfer.submit': 'Import',
+  'transfer.pending': 'Importing…',
+  'transfer.empty': 'Choose a file or paste a list of IDs',
+  'transfer.failed': 'Could not import the file',
+  'transfer.report': 'Rows: {rows}, accepted: {imported}, new IDs: {added}, rejected: {rejected}',
+  'transfer.row': 'Row',
+  'transfer.value': 'Value',
+  'transfer.reason': 'Reason',
+  'transfer.reportLimit': 'Showing the first {count} rejected rows',
+  'presets.title': 'Saved selections',
+  'presets.namePlaceholder': 'Name',
+  'presets.save': 'Save current selection',
+  'presets.empty': 'No saved selections yet',
+  'presets.count': 'IDs: {count} · {date}',
+  'presets.restore': 'Restore',
+  'presets.restored': 'Selection “{name}” restored',
+  'presets.restoredSkipped': 'Selection “{name}” restored, missing IDs skipped: {count}',
+  'presets.delete': 'Delete',
+  'presets.confirmDelete': 'Delete “{name}”?',
+  'presets.compareCurrent': 'Compare with current',
+  'presets.compare': 'Compare',
+  'presets.current': 'Current selection',
+  'presets.from': 'From',
+  'presets.to': 'To',
+  'presets.compareSubmit': 'Compare',
+  'presets.diffSummary': 'Added: {added}, removed: {removed}, moved: {moved}, in place: {unchanged}',
+  'presets.noDifference': 'The selections are identical',
+  'presets.added': 'Added',
+  'presets.removed': 'Removed',
+  'presets.moved': 'Moved',
+  'presets.move': 'ID {id}: position {from} → {to}',
+  'presets.diffLimit': 'Showing the first {count}',
+  'presets.loadFailed': 'Could not load saved selections',
+  'presets.failed': 'Could not complete the saved selection action',
+
+  'groups.scope': 'Show',
+  'groups.all': 'All groups',
+  'groups.ungrouped': 'No group',
+  'groups.namePlaceholder': 'New group',
+  'groups.create': 'Create group',
+  'groups.created': 'Group “{name}” created',
+  'groups.rename': 'Rename group “{name}”',
+  'groups.renameTitle': 'Rename',
+  'groups.delete': 'Delete',
+  'groups.confirmDelete': 'Delete group “{name}”? Its IDs stay selected',
+  'groups.deleted': 'Group “{name}” deleted',
+  'groups.count': 'IDs: {count}',
+  'groups.countFiltered': 'IDs: {count} of {total}',
+  'groups.moveTo': 'Move to group',
+  'groups.choose': 'Choose a group',
+  'groups.failed': 'Could not complete the group action',
+
+  'stats.title': 'Selection summary',
+  'stats.base': 'From the base range',
+  'stats.custom': 'Added IDs',
+  'stats.min': 'Smallest ID',
+  'stats.max': 'Largest ID',
+  'stats.none': '—',
+  'stats.matching': 'Match the filter',
+  'stats.matchingCount': '{count} of {total}',
+  'stats.chart': 'Base IDs in intervals of {size}',
+  'stats.bucket': 'IDs {from}–{to}: {count}',
+  'stats.noBase': 'The collection has no base range',
+  'stats.loadFailed': 'Could not load the selection summary',
+
+  'error.INVALID_JSON': 'The request is not valid JSON',
+  'error.PAYLOAD_TOO_LARGE': 'The request is too large',
+  'error.INVALID_FIELD': 'Invalid request field: {field}',
+  'error.INVALID_WORKSPACE': 'Workspace names use letters, digits, “-” and “_”, up to 64 characters',
+  'error.INVALID_COLLECTION': 'Collection names use letters, digits, “-” and “_”, up to 64 characters',
+  'error.COLLECTION_NOT_FOUND': 'Collection not found',
+  'error.COLLECTION_EXISTS': 'A collection with this name already exists',
+  'error.COLLECTION_NOT_DELETABLE': 'The default collection cannot be deleted',
+  'error.UNKNOWN_QUERY_TYPE': 'Unknown query type: {type}',
+  'error.INVALID_CURSOR': 'The page cursor is invalid or belongs to another list',
+  'error.INVALID_ID': 'The ID must be a positive integer',
+  'error.INVALID_ID_ENTRY': 'The ID must be a positive integer: “{value}”',
+  'error.ID_IN_BASE_RANGE': 'The ID already exists in the base range',
+  'error.ID_ALREADY_ADDED': 'The ID has already been added',
+  'error.ID_NOT_DELETABLE': 'IDs of the base range cannot be deleted',
+  'error.ID_NOT_FOUND': 'ID not found',
+  'error.TOO_MANY_IDS': 'At most {max} IDs at a time',
+  'error.TOO_MANY_OPS': 'At most {max} operations at a time',
+  'error.TOO_MANY_ROWS': 'Too many rows (at most {max})',
+  'error.INVALID_RANGE': 'Range bounds must be positive integers',
+  'error.RANGE_REVERSED': 'The range “{value}” starts after it ends',
+  'error.FILTER_NUMBER_TOO_LARGE': 'Number too large in the range “{value}”',
+  'error.FILTER_NUMBER_EXPECTED': 'A number is expected after “=”: “{value}”',
+  'error.FILTER_UNRECOGNIZED': 'Unrecognized filter term “{value}”',
+  'error.FILTER_TOO_MANY_TERMS': 'Too many filter terms (at most {max})',
+  'error.UNKNOWN_TAG': 'Unknown tag colour “{value}”',
+  'error.FIELD_NOT_STRING': 'The {field} field must be a string',
+  'error.FIELD_TOO_LONG': 'The {field} field is longer than {max} characters',
+  'error.UNKNOWN_BULK_ACTION': 'Unknown bulk operation',
+  'error.INVALID_OP': 'Invalid operation: {op}',
+  'error.SELECTION_CONFLICT': 'The selection changed on the server',
+  'error.PRESET_NOT_FOUND': 'Saved selection “{name}” not found',
+  'error.TOO_MANY_PRESETS': 'No more than {max} saved selections',
+  'error.GROUP_NOT_FOUND': 'Group {id} not found',
+  'error.TOO_MANY_GROUPS': 'No more than {max} groups',
+  'error.INVALID_JSON_FILE': 'The file is not valid JSON',
+  'error.INVALID_JSON_SHAPE': 'The JSON must be an array of IDs or an object with an ids array',
+  'error.UNAUTHORIZED': 'An access key is required: enter it under “Access key” in the header',
+  'error.FORBIDDEN': 'This access key only allows viewing',
+  'error.RATE_LIMITED': 'Too many requests, try again in {retryAfter} s',
+  'error.TOO_MANY_QUERIES': 'At most {max} queries per request',
+  'error.INTERNAL_ERROR': 'Internal server error',
+  'error.SERVER_UNAVAILABLE': 'The server is unreachable. Check the connection and try again.',
+  'error.REQUEST_FAILED': 'The request failed. Please try again later.',
+  'error.HTTP_ERROR': 'The server answered with error {status}',
+  'error.MISSING_RESULT': 'The server returned no result for the query',
+}
@@ -0,0 +1,104 @@
+import type { ErrorInfo } from '../../shared/errors.js'
+import { AppError, type AppErrorCode } from '../api/errors'
+import { en } from './en'
+import { ru, type Catalog, type MessageKey } from './ru'
+
+export type { MessageKey }
+
+export type Locale = 'ru' | 'en'
+
+export type MessageParams = Record<string, string | number>
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'ru', label: 'Русский' },
+  { value: 'en', label: 'English' },
+]
+
+const CATALOGS: Record<Locale, Catalog> = { ru, en }
+const NUMBER_LOCALES: Record<Locale, string> = { ru: 'ru-RU', en: 'en-US' }
+const LOCALE_STORAGE_KEY = 'locale'
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some((locale) => locale.value === value)
+
+const readStoredLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY)
+    if (isLocale(stored)) return stored
+  } catch {
+    // Storage may be unavailable; the browser language still applies.
+  }
+  const preferred = navigator.language?.slice(0, 2)
+  return isLocale(preferred) ? preferred : 'ru'
+}
+
+let currentLocale = readStoredLocale()
+document.documentElement.lang = currentLocale
+const listeners = new Set<() => void>()
+
+export function getLocale() {
+  return currentLocale
+}
+
+export function setLocale(locale: Locale) {
+  if (locale === currentLocale) return
+  currentLocale = locale
+  document.documentElement.lang = locale
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale)
+  } catch {
+    // The choice still applies to this tab when storage is unavailable.
+  }
+  listeners.forEach((listener) => listener())
+}
+
+export function subscribeToLocale(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+const errorKey = (code: AppErrorCode): MessageKey => `error.${code}`
+
+export type Translator = {
+  locale: Locale
+  t: (key: MessageKey, params?: MessageParams) => string
+  formatNumber: (value: number) => string
+  formatDate: (value: string) => string
+  formatError: (error: ErrorInfo) => string
+  describeError: (error: unknown, fallback: MessageKey) => string
+}
+
+const createTranslator = (locale: Locale): Translator => {
+  const catalog = CATALOGS[locale]
+  const numbers = new Intl.NumberFormat(NUMBER_LOCALES[locale])
+  const formatNumber = (value: number) => numbers.format(value)
+  const dates = new Intl.DateTimeFormat(NUMBER_LOCALES[locale], { dateStyle: 'medium', timeStyle: 'short' })
+  const t = (key: MessageKey, params: MessageParams = {}) =>
+    catalog[key].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name]
+      if (value === undefined) return placeholder
+      return typeof value === 'number' ? formatNumber(value) : value
+    })
+  const formatError = (error: ErrorInfo) => t(errorKey(error.code), error.params)
+  return {
+    locale,
+    t,
+    formatNumber,
+    formatDate: (value) => dates.format(new Date(value)),
+    formatError,
+    describeError: (error, fallback) =>
+      error instanceof AppError ? t(errorKey(error.code), error.params) : t(fallback),
+  }
+}
+
+const translators = new Map<Locale, Translator>()
+
+export function getTranslator(locale: Locale = currentLocale) {
+  let translator = translators.get(locale)
+  if (!translator) {
+    translator = createTranslator(locale)
+    translators.set(locale, translator)
+  }
+  return translator
+}
@@ -0,0 +1,290 @@
+export const ru = {
+  'common.loading': 'Загрузка...',
+  'common.confirm': 'Подтвердить',
+  'common.cancel': 'Отмена',
+  'common.close': 'Закрыть',
+  'common.save': 'Сохранить',
+  'common.countLabel': '{label} ({count})',
+
+  'app.title': 'Менеджер элементов',
+  'app.language': 'Язык',
+  'app.importExport': 'Импорт/экспорт',
+  'app.presets': 'Сохранённые выборы',
+  'app.selectedCount': 'Выбрано: {count}',
+  'app.availableCount': 'Доступно: {count}',
+
+  'connection.connecting': 'Подключение…',
+  'connection.open': 'Синхронизировано',
+  'connection.reconnecting': 'Нет связи, переподключение…',
+  'outbox.offline': 'Офлайн · не сохранено изменений: {count}',
+
+  'workspace.label': 'Пространство',
+  'workspace.newPlaceholder': 'Новое пространство',
+  'workspace.open': 'Открыть',
+  'workspace.invalidName': 'Буквы, цифры, «-» и «_», до 64 символов',
+  'workspace.switchFailed': 'Не удалось переключить пространство',
+
+  'collection.label': 'Коллекция',
+  'collection.option': '{id} (1…{max})',
+  'collection.newPlaceholder': 'Новая коллекция',
+  'collection.baseMax': 'Базовые ID до (0 — без базовых)',
+  'collection.invalidBaseMax': 'Верхняя граница базовых ID должна быть неотрицательным целым числом',
+  'collection.create': 'Создать',
+  'collection.createFailed': 'Не удалось создать коллекцию',
+  'collection.switchFailed': 'Не удалось переключить коллекцию',
+  'collection.deleted': 'Коллекция «{id}» удалена, открыта коллекция по умолчанию',
+
+  'apiKey.label': 'Ключ доступа',
+  'apiKey.set': 'Ключ доступа задан',
+  'apiKey.placeholder': 'Ключ API',
+  'apiKey.clear': 'Убрать ключ',
+
+  'list.available': 'Все элементы',
+  'list.selected': 'Выбранные элементы',
+  'list.selectedHint': 'Выбранные элементы. Shift или Ctrl и щелчок отмечают несколько, Alt и стрелки перемещают',
+  'list.availableFilter': 'Фильтр: 42, 42*, *00, =7, 100-200, #red, метка',
+  'list.selectedFilter': 'Фильтр по выбранным ID, #цвету или метке',
+  'list.noMatches': 'Совпадений не найдено',
+  'list.emptySelection': 'Выбор пуст',
+  'list.loadFailed': 'Не удалось загрузить элементы',
+
+  'row.id': 'ID {id}',
+  'row.editMeta': 'Изменить метку ID {id}',
+  'row.metaTitle': 'Метка и заметка',
+  'row.drag': 'Перетащите, чтобы переместить',
+  'row.select': 'Выбрать',
+  'row.remove': 'Удалить',
+
+  'selection.loadFailed': 'Ошибка при загрузке выбранных элементов',
+  'selection.saveFailed': 'Не удалось сохранить выбор',
+  'selection.rebased': 'Выбор изменён в другом окне, ваши изменения применены поверх',
+  'selection.dropped': 'Выбор изменён в другом окне, ваши последние изменения не применены',
+
+  'bulk.selectAll': 'Выбрать все',
+  'bulk.selectMatching': 'Выбрать найденные',
+  'bulk.confirmSelect': 'Выбрать {count} элементов?',
+  'bulk.selected': 'Выбрано элементов: {count}',
+  'bulk.rangeSelected': 'Выбрано элементов из диапазона: {count}',
+  'bulk.removeMatching': 'Удалить найденные',
+  'bulk.confirmRemove': 'Убрать из выбора {count} элементов?',
+  'bulk.removed': 'Удалено из выбора: {count}',
+  'bulk.clear': 'Очистить выбор',
+  'bulk.confirmClear': 'Очистить выбор из {count} элементов?',
+  'bulk.cleared': 'Выбор очищен',
+  'bulk.failed': 'Не удалось выполнить массовую операцию',
+
+  'range.from': 'От',
+  'range.fromLabel': 'Начало диапазона',
+  'range.to': 'До',
+  'range.toLabel': 'Конец диапазона',
+  'range.select': 'Выбрать диапазон',
+  'range.confirm': 'Выбрать {count} элементов из диапазона?',
+  'range.countFailed': 'Не удалось посчитать диапазон',
+
+  'sort.label': 'Порядок',
+  'sort.asc': 'По возрастанию ID',
+  'sort.desc': 'По убыванию ID',
+  'sort.addedFirst': 'Сначала добавленные',
+  'sort.manual': 'Ручной',
+  'reorder.byId': 'Упорядочить по ID',
+  'reorder.reverse': 'Развернуть',
+  'reorder.shuffle': 'Перемешать',
+  'reorder.done': 'Порядок выбора изменён',
+
+  'history.undo': 'Отменить',
+  'history.redo': 'Повторить',
+  'history.undone': 'Действие отменено',
+  'history.redone': 'Действие повторено',
+  'history.failed': 'Не удалось изменить историю выбора',
+
+  'marked.toolbar': 'Перемещение отмеченных',
+  'marked.count': 'Отмечено: {count}',
+  'marked.top': 'В начало',
+  'marked.up': 'Выше',
+  'marked.down': 'Ниже',
+  'marked.bottom': 'В конец',
+  'marked.clear': 'Снять отметку',
+
+  'announce.marked': 'Отмечено элементов: {count}',
+  'announce.unmarked': 'Отметка снята',
+  'announce.movedOne': 'ID {id} перемещён на позицию {position}',
+  'announce.movedMany': 'Перемещено элементов: {count}, новая позиция {position}',
+  'announce.inserted': 'ID {id} добавлен в выбор на позицию {position}',
+
+  'goTo.label': 'Перейти к',
+  'goTo.byId': 'К ID',
+  'goTo.byPosition': 'К позиции',
+  'goTo.id': 'ID',
+  'goTo.position': 'Позиция',
+  'goTo.idInput': 'ID для перехода',
+  'goTo.positionInput': 'Позиция для перехода',
+  'goTo.submit': 'Перейти',
+  'goTo.invalidPosition': 'Позиция должна быть положительным целым числом',
+  'goTo.outOfRange': 'В списке только {count} элементов',
+  'goTo.notFound': 'ID {id} не найден в списке',
+  'goTo.failed': 'Не удалось найти элемент',
+
+  'meta.label': 'Метка',
+  'meta.labelInput': 'Метка ID {id}',
+  'meta.color': 'Цвет',
+  'meta.noColor': 'Без цвета',
+  'meta.note': 'Заметка',
+  'meta.noteInput': 'Заметка к ID {id}',
+  'meta.cancel': 'Отменить изменение',
+  'meta.saveFailed': 'Не удалось сохранить метку',
+
+  'tag.red': 'Красный',
+  'tag.orange': 'Оранжевый',
+  'tag.yellow': 'Жёлтый',
+  'tag.green': 'Зелёный',
+  'tag.blue': 'Синий',
+  'tag.purple': 'Фиолетовый',
+  'tag.gray': 'Серый',
+
+  'add.placeholder': 'ID, список или диапазон',
+  'add.inputLabel': 'ID для добавления: одно значение, список через запятую или диапазон 1000001-1000500',
+  'add.submit': 'Добавить',
+  'add.empty': 'Введите ID для добавления',
+  'add.preview': 'Будет добавлено: {count}',
+  'add.previewRejected': 'Будет добавлено: {count}, отклонено: {rejected} ({reason})',
+  'add.queuedOne': 'ID {id} поставлен в очередь на добавление',
+  'add.queuedMany': 'ID в очереди на добавление: {count}',
+  'add.addedOne': 'ID {id} успешно добавлен',
+  'add.notAdded': 'ID не был добавлен',
+  'add.added': 'Добавлено ID: {count}',
+  'add.addedRejected': 'Добавлено ID: {count}, отклонено: {rejected} ({reason})',
+  'add.failed': 'Не удалось добавить элемент',
+  'delete.submit': 'Удалить',
+  'delete.confirm': 'Удалить {count} ID без возможности отмены?',
+  'delete.done': 'Удалено ID: {count}',
+  'delete.doneRejected': 'Удалено ID: {count}, отклонено: {rejected} ({reason})',
+  'delete.failed': 'Не удалось удалить ID',
+
+  'transfer.title': 'Импорт и экспорт',
+  'transfer.export': 'Экспорт',
+  'transfer.import': 'Импорт',
+  'transfer.download': 'Скачать',
+  'transfer.format.csv': 'CSV',
+  'transfer.format.json': 'JSON',
+  'transfer.format.text': 'Текст (ID на строку)',
+  'transfer.target.selection': 'Выбранные элементы',
+  'transfer.target.added': 'Добавленные ID',
+  'transfer.mode.append': 'Добавить в конец выбора',
+  'transfer.mode.replace': 'Заменить выбор',
+  'transfer.paste': '…или вставьте список ID',
+  'transfer.submit': 'Импортировать',
+  'transfer.pending': 'Импорт…',
+  'transfer.empty': 'Выберите файл или вставьте список ID',
+  'transfer.failed': 'Не удалось импортировать файл',
+  'transfer.report': 'Строк: {rows}, принято: {imported}, новых ID: {added}, отклонено: {rejected}',
+  'transfer.row': 'Строка',
+  'transfer.value': 'Значение',
+  'transfer.reason': 'Причина',
+  'transfer.reportLimit': 'Показаны первые {count} отклонённых строк',
+  'presets.title': 'Сохранённые выборы',
+  'presets.namePlaceholder': 'Название',
+  'presets.save': 'Сохранить текущий выбор',
+  'presets.empty': 'Сохранённых выборов пока нет',
+  'presets.count': 'ID: {count} · {date}',
+  'presets.restore': 'Восстановить',
+  'presets.restored': 'Выбор «{name}» восстановлен',
+  'presets.restoredSkipped': 'Выбор «{name}» восстановлен, пропущено отсутствующих ID: {count}',
+  'presets.delete': 'Удалить',
+  'presets.confirmDelete': 'Удалить «{name}»?',
+  'presets.compareCurrent': 'Сравнить с текущим',
+  'presets.compare': 'Сравнение',
+  'presets.current': 'Текущий выбор',
+  'presets.from': 'Было',
+  'presets.to': 'Стало',
+  'presets.compareSubmit': 'Сравнить',
+  'presets.diffSummary': 'Добавлено: {added}, убрано: {removed}, перемещено: {moved}, на месте: {unchanged}',
+  'presets.noDifference': 'Выборы совпадают',
+  'presets.added': 'Добавлены',
+  'presets.removed': 'Убраны',
+  'presets.moved': 'Перемещены',
+  'presets.move': 'ID {id}: позиция {from} → {to}',
+  'presets.diffLimit': 'Показаны первые {count}',
+  'presets.loadFailed': 'Не удалось загрузить сохранённые выборы',
+  'presets.failed': 'Не удалось выполнить действие с сохранённым выбором',
+
+  'groups.scope': 'Показать',
+  'groups.all': 'Все группы',
+  'groups.ungrouped': 'Без группы',
+  'groups.namePlaceholder': 'Новая группа',
+  'groups.create': 'Создать группу',
+  'groups.created': 'Группа «{name}» создана',
+  'groups.rename': 'Переименовать группу «{name}»',
+  'groups.renameTitle': 'Переименовать',
+  'groups.delete': 'Удалить',
+  'groups.confirmDelete': 'Удалить группу «{name}»? ID останутся в выборе',
+  'groups.deleted': 'Группа «{name}» удалена',
+  'groups.count': 'ID: {count}',
+  'groups.countFiltered': 'ID: {count} из {total}',
+  'groups.moveTo': 'В группу',
+  'groups.choose': 'Выберите группу',
+  'groups.failed': 'Не удалось выполнить действие с группой',
+
+  'stats.title': 'Сводка выбора',
+  'stats.base': 'Из базового диапазона',
+  'stats.custom': 'Добавленные ID',
+  'stats.min': 'Наименьший ID',
+  'stats.max': 'Наибольший ID',
+  'stats.none': '—',
+  'stats.matching': 'Подходят под фильтр',
+  'stats.matchingCount': '{count} из {total}',
+  'stats.chart': 'Базовые ID по интервалам в {size}',
+  'stats.bucket': 'ID {from}–{to}: {count}',
+  'stats.noBase': 'В коллекции нет базового диапазона',
+  'stats.loadFailed': 'Не удалось загрузить сводку выбора',
+
+  'error.INVALID_JSON': 'Некорректный JSON в запросе',
+  'error.PAYLOAD_TOO_LARGE': 'Слишком большой запрос',
+  'error.INVALID_FIELD': 'Некорректное поле запроса: {field}',
+  'error.INVALID_WORKSPACE': 'Имя пространства: буквы, цифры, «-» и «_», не длиннее 64 символов',
+  'error.INVALID_COLLECTION': 'Имя коллекции: буквы, цифры, «-» и «_», не длиннее 64 символов',
+  'error.COLLECTION_NOT_FOUND': 'Коллекция не найдена',
+  'error.COLLECTION_EXISTS': 'Коллекция с таким именем уже есть',
+  'error.COLLECTION_NOT_DELETABLE': 'Коллекцию по умолчанию нельзя удалить',
+  'error.UNKNOWN_QUERY_TYPE': 'Неизвестный тип запроса: {type}',
+  'error.INVALID_CURSOR': 'Курсор страницы некорректен или относится к другому списку',
+  'error.INVALID_ID': 'ID должен быть положительным целым числом',
+  'error.INVALID_ID_ENTRY': 'ID должен быть положительным целым числом: «{value}»',
+  'error.ID_IN_BASE_RANGE': 'ID уже существует в базовом наборе',
+  'error.ID_ALREADY_ADDED': 'ID уже добавлен',
+  'error.ID_NOT_DELETABLE': 'ID из базового набора нельзя удалить',
+  'error.ID_NOT_FOUND': 'ID не найден',
+  'error.TOO_MANY_IDS': 'Не больше {max} ID за раз',
+  'error.TOO_MANY_OPS': 'Не больше {max} операций за раз',
+  'error.TOO_MANY_ROWS': 'Слишком много строк (не больше {max})',
+  'error.INVALID_RANGE': 'Границы диапазона должны быть положительными целыми числами',
+  'error.RANGE_REVERSED': 'Начало диапазона «{value}» больше конца',
+  'error.FILTER_NUMBER_TOO_LARGE': 'Слишком большое число в диапазоне «{value}»',
+  'error.FILTER_NUMBER_EXPECTED': 'После «=» ожидается число: «{value}»',
+  'error.FILTER_UNRECOGNIZED': 'Непонятный фрагмент фильтра «{value}»',
+  'error.FILTER_TOO_MANY_TERMS': 'Слишком много условий в фильтре (не больше {max})',
+  'error.UNKNOWN_TAG': 'Неизвестный цвет метки «{value}»',
+  'error.FIELD_NOT_STRING': 'Поле {field} должно быть строкой',
+  'error.FIELD_TOO_LONG': 'Поле {field} длиннее {max} символов',
+  'error.UNKNOWN_BULK_ACTION': 'Неизвестная массовая операция',
+  'error.INVALID_OP': 'Некорректная операция: {op}',
+  'error.SELECTION_CONFLICT': 'Выбор изменился на сервере',
+  'error.PRESET_NOT_FOUND': 'Сохранённый выбор «{name}» не найден',
+  'error.TOO_MANY_PRESETS': 'Не больше {max} сохранённых выборов',
+  'error.GROUP_NOT_FOUND': 'Группа {id} не найдена',
+  'error.TOO_MANY_GROUPS': 'Не больше {max} групп',
+  'error.INVALID_JSON_FILE': 'Файл не является корректным JSON',
+  'error.INVALID_JSON_SHAPE': 'JSON должен быть массивом ID или объектом с полем ids',
+  'error.UNAUTHORIZED': 'Нужен ключ доступа: укажите его в поле «Ключ доступа» в шапке',
+  'error.FORBIDDEN': 'Ключ доступа позволяет только просмотр',
+  'error.RATE_LIMITED': 'Слишком много запросов, повторите через {retryAfter} с',
+  'error.TOO_MANY_QUERIES': 'Не больше {max} запросов в одном обращении',
+  'error.INTERNAL_ERROR': 'Внутренняя ошибка сервера',
+  'error.SERVER_UNAVAILABLE': 'Сервер недоступен. Проверьте соединение и повторите попытку.',
+  'error.REQUEST_FAILED': 'Не удалось выполнить запрос. Попробуйте ещё раз позже.',
+  'error.HTTP_ERROR': 'Сервер ответил ошибкой {status}',
+  'error.MISSING_RESULT': 'Сервер не вернул результат для запроса',
+}
+
+export type MessageKey = keyof typeof ru
+
+export type Catalog = Record<MessageKey, string>